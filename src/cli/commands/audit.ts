@@ -4,6 +4,7 @@
 
 import chalk from 'chalk';
 import { DecisionLog } from '../../storage/DecisionLog';
+import { VerifyReport, createAuditKey, loadAuditKey } from '../../storage/AuditChain';
 import { logger } from '../../core/Logger';
 
 export async function auditCommand(options: { lines: string }): Promise<void> {
@@ -28,17 +29,43 @@ export async function auditCommand(options: { lines: string }): Promise<void> {
 
     decisions.forEach((record) => {
       const timestamp = new Date(record.timestamp).toLocaleTimeString();
+
+      if (DecisionLog.isEvent(record)) {
+        const details = record.details ? chalk.dim(` ${JSON.stringify(record.details)}`) : '';
+        console.log(`${chalk.dim(timestamp)} | ${chalk.magenta(record.event)}${details}`);
+        return;
+      }
+
       const decisionColor =
-        record.decision === 'ALLOWED' || record.decision === 'APPROVED' ? chalk.green : chalk.red;
+        record.decision === 'ALLOWED' || record.decision === 'APPROVED'
+          ? chalk.green
+          : record.decision === 'TIMED_OUT'
+            ? chalk.yellow
+            : chalk.red;
 
       const decisionText = decisionColor(record.decision.padEnd(10));
       const timeText = chalk.dim(`${(record.decisionTime / 1000).toFixed(1)}s`.padStart(6));
       const userText = record.userId ? chalk.dim(` (${record.userId})`) : '';
+      const pathText = record.grantId
+        ? chalk.dim(` via grant ${record.grantId}`)
+        : record.approvalPath
+          ? chalk.dim(` via ${record.approvalPath}`)
+          : '';
+      // Short correlation id, enough to pair a block with its approval
+      const correlationText = record.correlationId
+        ? chalk.blue(` #${record.correlationId.slice(0, 8)}`)
+        : '';
       const reasonText = record.reason ? chalk.dim(` - ${record.reason}`) : '';
 
       console.log(
-        `${chalk.dim(timestamp)} | ${chalk.cyan(`${record.module}.${record.method}`.padEnd(25))} | ${decisionText} | ${timeText}${userText}${reasonText}`
+        `${chalk.dim(timestamp)} | ${chalk.cyan(`${record.module}.${record.method}`.padEnd(25))} | ${decisionText} | ${timeText}${userText}${pathText}${correlationText}${reasonText}`
       );
+      if (record.votes && record.votes.length > 0) {
+        const votes = record.votes.map(
+          (v) => `${v.vote === 'approve' ? '✓' : '✗'} ${v.approver} (${v.via})`
+        );
+        console.log(chalk.dim(`         votes: ${votes.join(', ')}`));
+      }
     });
 
     console.log('');
@@ -50,3 +77,62 @@ export async function auditCommand(options: { lines: string }): Promise<void> {
     process.exit(1);
   }
 }
+
+export async function auditVerifyCommand(): Promise<void> {
+  console.log('');
+  console.log(chalk.bold.cyan('═'.repeat(80)));
+  console.log(chalk.bold.cyan('   🔏 ClawBands Audit Verification'));
+  console.log(chalk.bold.cyan('═'.repeat(80)));
+  console.log('');
+
+  let report: VerifyReport;
+  try {
+    report = await DecisionLog.verify();
+  } catch (error) {
+    console.error(chalk.red('❌ Failed to verify audit trail:'), error);
+    logger.error('Audit verify failed', { error });
+    process.exit(1);
+  }
+
+  console.log(`Lines:        ${report.total}`);
+  console.log(`Chained:      ${report.chained}`);
+  console.log(`Signed:       ${report.signed}`);
+  console.log(`Checkpoints:  ${report.checkpoints}`);
+  if (report.legacy > 0) {
+    console.log(
+      chalk.dim(`Legacy:       ${report.legacy} (written before chaining, not verifiable)`)
+    );
+  }
+  console.log('');
+
+  if (!report.ok && report.issue) {
+    const { line, seq, problem } = report.issue;
+    const where = line > 0 ? `line ${line}` : 'checkpoint file';
+    const seqText = seq !== undefined ? ` (seq ${seq})` : '';
+    console.log(chalk.red(`❌ Audit trail is NOT intact: ${where}${seqText}: ${problem}`));
+    console.log(chalk.dim(`   Log: ${DecisionLog.getPath()}`));
+    console.log('');
+    process.exit(1);
+  }
+
+  if (report.signed === 0 && !(await loadAuditKey())) {
+    console.log(
+      chalk.yellow('⚠️  No audit key: the chain detects edits but can be recomputed.') +
+        chalk.dim(' Run: clawbands audit keygen')
+    );
+  }
+  console.log(chalk.green('✅ Audit trail is intact.'));
+  console.log('');
+}
+
+export async function auditKeygenCommand(): Promise<void> {
+  try {
+    const file = await createAuditKey();
+    console.log(chalk.green(`✅ Audit key created: ${file}`));
+    console.log(chalk.dim('   New audit lines and checkpoints are signed with it.'));
+  } catch (error) {
+    console.error(chalk.red('❌ Failed to create audit key:'), error);
+    logger.error('Audit keygen failed', { error });
+    process.exit(1);
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * ClawBands Grants Command
+ */
+
+import os from 'os';
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { Grant, GrantStore } from '../../storage/GrantStore';
+import { formatDuration } from '../../core/RateLimiter';
+import { logger } from '../../core/Logger';
+
+/** Who ran the command, recorded with confirmations and revocations */
+function localUser(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || 'local';
+  }
+}
+
+function describeScope(grant: Grant): string {
+  switch (grant.scope) {
+    case 'session':
+      return `session ${grant.sessionKey}`;
+    case 'agent':
+      return `agent ${grant.agentId}`;
+    default:
+      return 'everyone';
+  }
+}
+
+function describeExpiry(grant: Grant): string {
+  if (grant.unconfirmed) return chalk.yellow('awaiting confirmation');
+  if (!grant.expiresAt) return chalk.yellow('until revoked');
+  return `expires in ${formatDuration(Date.parse(grant.expiresAt) - Date.now())}`;
+}
+
+export async function grantsListCommand(): Promise<void> {
+  console.log('');
+  console.log(chalk.bold.cyan('═'.repeat(80)));
+  console.log(chalk.bold.cyan('   🎫 ClawBands Grants'));
+  console.log(chalk.bold.cyan('═'.repeat(80)));
+  console.log('');
+
+  try {
+    const grants = await GrantStore.list();
+
+    if (grants.length === 0) {
+      console.log(chalk.yellow('No active grants.'));
+      console.log('');
+      return;
+    }
+
+    grants.forEach((grant) => {
+      const grantedBy = grant.grantedBy ? chalk.dim(` by ${grant.grantedBy}`) : '';
+      console.log(
+        `${chalk.blue(grant.id)}  ${chalk.cyan(`${grant.moduleName}.${grant.methodName}`.padEnd(25))} ${describeExpiry(grant)}`
+      );
+      console.log(chalk.dim(`          for ${describeScope(grant)}`) + grantedBy);
+      if (grant.match) {
+        console.log(chalk.dim(`          only ${JSON.stringify(grant.match)}`));
+      }
+    });
+
+    console.log('');
+    if (grants.some((grant) => grant.unconfirmed)) {
+      console.log(chalk.dim('Confirm with: clawbands grants confirm <id>'));
+    }
+    console.log(chalk.dim('Revoke with: clawbands grants revoke <id>'));
+    console.log(chalk.dim(`Grants file: ${GrantStore.getPath()}`));
+    console.log('');
+  } catch (error) {
+    console.error(chalk.red('❌ Failed to load grants:'), error);
+    logger.error('Grants list failed', { error });
+    process.exit(1);
+  }
+}
+
+export async function grantsConfirmCommand(id: string): Promise<void> {
+  try {
+    const grant = await GrantStore.confirm(id, localUser());
+    if (!grant) {
+      console.error(chalk.red(`❌ No grant awaiting confirmation with id "${id}"`));
+      process.exit(1);
+    }
+    console.log(
+      chalk.green(`✅ Confirmed grant ${grant.id} (${grant.moduleName}.${grant.methodName})`)
+    );
+    console.log(chalk.dim(`for ${describeScope(grant)}, ${describeExpiry(grant)}`));
+  } catch (error) {
+    console.error(chalk.red('❌ Failed to confirm grant:'), error);
+    logger.error('Grants confirm failed', { error });
+    process.exit(1);
+  }
+}
+
+export async function grantsRevokeCommand(id: string): Promise<void> {
+  try {
+    const grant = await GrantStore.revoke(id, localUser());
+    if (!grant) {
+      console.error(chalk.red(`❌ No active grant with id "${id}"`));
+      process.exit(1);
+    }
+    console.log(
+      chalk.green(`✅ Revoked grant ${grant.id} (${grant.moduleName}.${grant.methodName})`)
+    );
+  } catch (error) {
+    console.error(chalk.red('❌ Failed to revoke grant:'), error);
+    logger.error('Grants revoke failed', { error });
+    process.exit(1);
+  }
+}
+
+export async function grantsRevokeAllCommand(options: {
+  session?: string;
+  yes?: boolean;
+}): Promise<void> {
+  try {
+    const target = options.session ? `all grants of session ${options.session}` : 'all grants';
+    if (!options.yes) {
+      const { confirm } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirm',
+          message: chalk.red(`Revoke ${target}?`),
+          default: false,
+        },
+      ]);
+      if (!confirm) {
+        console.log(chalk.dim('Revoke cancelled'));
+        return;
+      }
+    }
+
+    const revoked = await GrantStore.revokeAll({ sessionKey: options.session }, localUser());
+    console.log(chalk.green(`✅ Revoked ${revoked.length} grant(s)`));
+  } catch (error) {
+    console.error(chalk.red('❌ Failed to revoke grants:'), error);
+    logger.error('Grants revoke-all failed', { error });
+    process.exit(1);
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * ClawBands Notify Command
+ * Send a sample notification to the configured sinks
+ */
+
+import chalk from 'chalk';
+import { PolicyStore } from '../../storage/PolicyStore';
+import { describeEvent, NotificationEvent, Notifier } from '../../core/Notifier';
+import { logger } from '../../core/Logger';
+
+/** A made-up approval request, clearly marked as a test */
+const SAMPLE_EVENT: NotificationEvent = {
+  event: 'ASK',
+  timestamp: '',
+  module: 'Shell',
+  method: 'bash',
+  args: [{ command: 'echo "ClawBands test notification"' }],
+  reason: 'Test notification from `clawbands notify test`: nothing is waiting for approval',
+  correlationId: '00000000-0000-4000-8000-000000000000',
+  code: '000000',
+  allowCode: '000001',
+};
+
+export async function notifyTestCommand(options: { sink?: string }): Promise<void> {
+  console.log('');
+  console.log(chalk.bold.cyan('═'.repeat(80)));
+  console.log(chalk.bold.cyan('   🔔 ClawBands Notification Test'));
+  console.log(chalk.bold.cyan('═'.repeat(80)));
+  console.log('');
+
+  try {
+    const policy = await PolicyStore.load();
+    const notifier = new Notifier(policy.notifications);
+    const sinks = notifier
+      .getSinks()
+      .filter((sink) => !options.sink || notifier.label(sink) === options.sink);
+
+    if (sinks.length === 0) {
+      console.log(
+        chalk.yellow(
+          options.sink
+            ? `No sink named "${options.sink}".`
+            : 'No notification sinks configured (policy "notifications.sinks").'
+        )
+      );
+      console.log('');
+      process.exit(options.sink ? 1 : 0);
+    }
+    if (policy.notifications?.enabled === false) {
+      console.log(chalk.yellow('Notifications are disabled in the policy; testing anyway.'));
+    }
+
+    // Sinks get every test, whatever their `on` and `modules` filters say
+    const event = { ...SAMPLE_EVENT, timestamp: new Date().toISOString() };
+    console.log(chalk.dim(`Sending "${describeEvent(event)}"...`));
+    let failed = 0;
+    for (const sink of sinks) {
+      try {
+        await notifier.send(sink, event);
+        console.log(chalk.green(`✅ ${notifier.label(sink)}`));
+      } catch (error) {
+        failed++;
+        console.log(
+          chalk.red(`❌ ${notifier.label(sink)}: ${error instanceof Error ? error.message : error}`)
+        );
+      }
+    }
+    console.log('');
+    if (failed > 0) process.exit(1);
+  } catch (error) {
+    console.error(chalk.red('❌ Notification test failed:'), error);
+    logger.error('Notify test failed', { error });
+    process.exit(1);
+  }
+}
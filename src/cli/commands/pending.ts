@@ -0,0 +1,105 @@
+/**
+ * ClawBands Pending / Approve / Deny Commands
+ * Answer approval requests from a terminal, through the gateway's control socket
+ */
+
+import chalk from 'chalk';
+import { countApprovals, describeQuorum } from '../../core/ApprovalQueue';
+import { formatDuration } from '../../core/RateLimiter';
+import { logger } from '../../core/Logger';
+import {
+  ControlRequest,
+  ControlResponse,
+  PendingApproval,
+  sendControlRequest,
+} from '../../plugin/control-socket';
+
+/** Send a request; report a failed one and exit */
+async function request(command: ControlRequest, failure: string): Promise<ControlResponse> {
+  let response: ControlResponse;
+  try {
+    response = await sendControlRequest(command);
+  } catch (error) {
+    console.error(chalk.red(`❌ ${failure}:`), error instanceof Error ? error.message : error);
+    logger.error(`${command.command} command failed`, { error });
+    process.exit(1);
+  }
+  if (!response.ok) {
+    console.error(chalk.red(`❌ ${response.error}`));
+    process.exit(1);
+  }
+  return response;
+}
+
+function describe(entry: PendingApproval): string {
+  return `${chalk.blue(entry.id.slice(0, 8))} ${chalk.cyan(`${entry.moduleName}.${entry.methodName}`)}`;
+}
+
+/** "1 of 2 approvals (needs 2 of alice, bob, carol; approved by alice)" */
+function describeVotes(entry: PendingApproval): string {
+  const quorum = entry.quorum!;
+  const approvedBy = (entry.votes ?? []).filter((v) => v.vote === 'approve').map((v) => v.approver);
+  return (
+    `${countApprovals(entry)} of ${quorum.required} approvals (needs ${describeQuorum(quorum)}` +
+    (approvedBy.length > 0 ? `; approved by ${approvedBy.join(', ')})` : ')')
+  );
+}
+
+export async function pendingCommand(): Promise<void> {
+  console.log('');
+  console.log(chalk.bold.cyan('═'.repeat(80)));
+  console.log(chalk.bold.cyan('   ⏳ ClawBands Pending Approvals'));
+  console.log(chalk.bold.cyan('═'.repeat(80)));
+  console.log('');
+
+  const { pending = [] } = await request({ command: 'pending' }, 'Failed to list approvals');
+
+  if (pending.length === 0) {
+    console.log(chalk.yellow('No pending approvals.'));
+    console.log('');
+    return;
+  }
+
+  pending.forEach((entry) => {
+    const expiresIn = formatDuration(Date.parse(entry.expiresAt) - Date.now());
+    const code =
+      (entry.code ? ` ${chalk.bold.yellow(`code ${entry.code}`)}` : '') +
+      (entry.allowCode ? ` ${chalk.yellow(`allow ${entry.allowCode}`)}` : '');
+    const escalated = entry.escalated ? ` ${chalk.red('escalated')}` : '';
+    console.log(`${describe(entry)}${code}${escalated} ${chalk.dim(`expires in ${expiresIn}`)}`);
+    console.log(chalk.dim(`         session ${entry.sessionKey || '(none)'}`));
+    if (entry.risk) {
+      console.log(chalk.yellow(`         ${entry.risk}`));
+    }
+    if (entry.quorum) {
+      console.log(chalk.magenta(`         ${describeVotes(entry)}`));
+    }
+    if (entry.args !== undefined) {
+      const args = JSON.stringify(entry.args.length === 1 ? entry.args[0] : entry.args);
+      console.log(chalk.gray(`         ${args}`));
+    }
+  });
+
+  console.log('');
+  console.log(chalk.dim('Answer with: clawbands approve <id> | clawbands deny <id>'));
+  console.log(
+    chalk.dim('or tell the agent YES with the code (ALLOW with the allow code), in the chat.')
+  );
+  console.log('');
+}
+
+export async function approveCommand(id: string): Promise<void> {
+  const { answered } = await request({ command: 'approve', id }, 'Failed to approve');
+  if (answered!.status === 'pending') {
+    console.log(chalk.green(`✅ Vote recorded for ${describe(answered!)}`));
+    console.log(chalk.dim(describeVotes(answered!)));
+    return;
+  }
+  console.log(chalk.green(`✅ Approved ${describe(answered!)}`));
+  console.log(chalk.dim('A held call runs now; otherwise it runs when the agent retries it.'));
+}
+
+export async function denyCommand(id: string): Promise<void> {
+  const { answered } = await request({ command: 'deny', id }, 'Failed to deny');
+  console.log(chalk.red(`✗ Denied ${describe(answered!)}`));
+}
@@ -4,8 +4,23 @@
 
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import { PolicyStore, PersistedPolicy } from '../../storage/PolicyStore';
+import fs from 'fs-extra';
+import path from 'path';
+import { PolicyStore, PersistedPolicy, PolicyFormat } from '../../storage/PolicyStore';
 import { logger } from '../../core/Logger';
+import { checkSelfProtection } from '../../core/SelfProtection';
+import { analyzeShellCommand } from '../../core/ShellAnalyzer';
+import { applyRewrite } from '../../core/ParamRewriter';
+import { describeQuorum } from '../../core/ApprovalQueue';
+import { describeLimit, formatDuration, parseDuration } from '../../core/RateLimiter';
+import { describeSchedule, formatLocalTime, localTime, matchesSchedule } from '../../core/Schedule';
+import { extractCommand } from '../../core/RuleMatcher';
+import { resolveRule } from '../../core/RuleResolver';
+import { mapTool } from '../../plugin/tool-interceptor';
+import { CURRENT_POLICY_VERSION } from '../../storage/PolicyMigrations';
+import { formatIssues, validatePolicy } from '../../storage/PolicyValidator';
+import { diffPolicies, PolicyChange } from '../../core/PolicyDiff';
+import { ApprovalTimeout, Decision, Schedule, SecurityRule } from '../../types';
 
 export async function policyCommand(): Promise<void> {
   console.log('');
@@ -21,21 +36,70 @@ export async function policyCommand(): Promise<void> {
     console.log(chalk.bold('Current Security Policy:'));
     console.log(chalk.dim(`  Default Action: ${policy.defaultAction}`));
     console.log(chalk.dim(`  Last Updated: ${policy.updatedAt}`));
+    const now = new Date();
+    console.log(
+      chalk.dim(
+        `  Time: ${formatLocalTime(localTime(now, policy.timezone))} (${policy.timezone || 'local'})`
+      )
+    );
     console.log('');
 
     console.log(chalk.bold('Protected Modules:'));
     Object.entries(policy.modules).forEach(([moduleName, rules]) => {
       console.log(chalk.cyan(`  ${moduleName}:`));
       Object.entries(rules).forEach(([methodName, rule]) => {
-        const actionColor =
-          rule.action === 'ALLOW' ? chalk.green : rule.action === 'DENY' ? chalk.red : chalk.yellow;
         console.log(
-          `    ${methodName}: ${actionColor(rule.action)} ${chalk.dim(
+          `    ${methodName}: ${colorAction(rule.action)} ${chalk.dim(
             rule.description ? `- ${rule.description}` : ''
           )}`
         );
+        if (rule.limit) {
+          console.log(
+            chalk.dim(
+              `      limit: ${describeLimit(`${moduleName}.${methodName}`, rule.limit)} → `
+            ) + colorAction(rule.limit.onExceed || 'DENY')
+          );
+        }
+        if (rule.approvers) {
+          console.log(chalk.dim(`      approvers: ${describeQuorum(rule.approvers)}`));
+        }
+        if (rule.approvalTimeout) {
+          console.log(chalk.dim(`      timeout: ${describeApprovalTimeout(rule.approvalTimeout)}`));
+        }
+        (rule.conditions || []).forEach((condition) => {
+          console.log(
+            chalk.dim(`      if ${JSON.stringify(condition.match)} → `) +
+              colorAction(condition.action) +
+              scheduleState(condition.match.schedule, now, policy.timezone)
+          );
+        });
       });
     });
+    if (policy.moduleDefaults && Object.keys(policy.moduleDefaults).length > 0) {
+      console.log('');
+      console.log(chalk.bold('Module Defaults:'));
+      Object.entries(policy.moduleDefaults).forEach(([moduleName, action]) => {
+        console.log(`  ${moduleName}: ${colorAction(action)}`);
+      });
+    }
+    if (policy.overlays && policy.overlays.length > 0) {
+      console.log('');
+      console.log(chalk.bold('Overlays (later ones take precedence):'));
+      policy.overlays.forEach((overlay, index) => {
+        const selectors = (['agentId', 'session', 'channel', 'chatType', 'peer'] as const)
+          .filter((key) => overlay[key] !== undefined)
+          .map((key) => `${key}=${JSON.stringify(overlay[key])}`)
+          .join(' ');
+        const ruleCount = Object.values(overlay.modules || {}).reduce(
+          (count, rules) => count + Object.keys(rules).length,
+          0
+        );
+        console.log(
+          `  ${chalk.cyan(overlay.name || `overlays[${index}]`)} ${chalk.dim(selectors)} → ${ruleCount} rule(s)` +
+            (overlay.defaultAction ? `, default ${colorAction(overlay.defaultAction)}` : '')
+        );
+      });
+    }
     console.log('');
 
     // Action menu
@@ -92,7 +156,7 @@ async function changeDefaultLevel(policy: PersistedPolicy): Promise<void> {
   policy.defaultAction = newDefault;
   await PolicyStore.save(policy);
   console.log(chalk.green(`✅ Default action changed to ${newDefault}`));
-  console.log(chalk.yellow('⚠️  Restart OpenClaw for changes to take effect: openclaw restart'));
+  console.log(chalk.dim('Changes are picked up automatically by the running gateway.'));
 }
 
 async function modifyRule(policy: PersistedPolicy): Promise<void> {
@@ -148,7 +212,7 @@ async function modifyRule(policy: PersistedPolicy): Promise<void> {
 
   await PolicyStore.save(policy);
   console.log(chalk.green(`✅ Rule updated: ${moduleName}.${methodName} → ${newAction}`));
-  console.log(chalk.yellow('⚠️  Restart OpenClaw for changes to take effect: openclaw restart'));
+  console.log(chalk.dim('Changes are picked up automatically by the running gateway.'));
 }
 
 async function addModule(policy: PersistedPolicy): Promise<void> {
@@ -174,7 +238,7 @@ async function addModule(policy: PersistedPolicy): Promise<void> {
 
   await PolicyStore.save(policy);
   console.log(chalk.green(`✅ Module added: ${moduleName}`));
-  console.log(chalk.yellow('⚠️  Restart OpenClaw for changes to take effect: openclaw restart'));
+  console.log(chalk.dim('Changes are picked up automatically by the running gateway.'));
 }
 
 async function resetPolicy(): Promise<void> {
@@ -190,8 +254,436 @@ async function resetPolicy(): Promise<void> {
   if (confirm) {
     await PolicyStore.reset();
     console.log(chalk.green('✅ Policy reset to defaults'));
-    console.log(chalk.yellow('⚠️  Restart OpenClaw for changes to take effect: openclaw restart'));
+    console.log(chalk.dim('Changes are picked up automatically by the running gateway.'));
   } else {
     console.log(chalk.dim('Reset cancelled'));
   }
 }
+
+export async function policyExplainCommand(
+  tool: string,
+  options: { params?: string; agent?: string; session?: string }
+): Promise<void> {
+  console.log('');
+  console.log(chalk.bold.cyan('═'.repeat(80)));
+  console.log(chalk.bold.cyan('   🔎 ClawBands Policy Explain'));
+  console.log(chalk.bold.cyan('═'.repeat(80)));
+  console.log('');
+
+  try {
+    let params: Record<string, unknown> = {};
+    if (options.params) {
+      const parsed = JSON.parse(options.params);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('--params must be a JSON object');
+      }
+      params = parsed;
+    }
+
+    const policy = await PolicyStore.load();
+
+    // Accept either an OpenClaw tool name ("bash") or a Module.method pair ("Shell.bash")
+    const dot = tool.indexOf('.');
+    const { module: moduleName, method: methodName } =
+      dot > 0
+        ? { module: tool.slice(0, dot), method: tool.slice(dot + 1) }
+        : mapTool(tool, policy.tools);
+
+    const resolved = resolveRule(policy, moduleName, methodName, params, {
+      agentId: options.agent,
+      sessionKey: options.session,
+    });
+
+    console.log(chalk.bold('Tool:     '), chalk.white(`${tool} → ${moduleName}.${methodName}`));
+    if (options.params) {
+      console.log(chalk.bold('Params:   '), chalk.white(JSON.stringify(params)));
+    }
+    if (options.agent) {
+      console.log(chalk.bold('Agent:    '), chalk.white(options.agent));
+    }
+    if (options.session) {
+      console.log(chalk.bold('Session:  '), chalk.white(options.session));
+    }
+    console.log(
+      chalk.bold('Time:     '),
+      chalk.white(
+        `${formatLocalTime(localTime(new Date(), policy.timezone))} (${policy.timezone || 'local'})`
+      )
+    );
+    console.log('');
+
+    const violation = checkSelfProtection(dot > 0 ? undefined : tool, params);
+    if (violation) {
+      console.log(chalk.bold('Decision: '), colorAction('DENY'));
+      console.log(chalk.bold('Source:   '), chalk.white('self-protection (built-in)'));
+      console.log(
+        chalk.bold('Reason:   '),
+        chalk.dim(`${violation.target} (${violation.detail}); the policy is not consulted`)
+      );
+      console.log('');
+      return;
+    }
+
+    const command = extractCommand(params);
+    if (command) {
+      const analysis = analyzeShellCommand(command);
+      console.log(chalk.bold('Shell analysis:'));
+      analysis.segments.forEach((segment) => {
+        console.log(
+          `  ${chalk.white(segment.words.join(' '))} ${chalk.dim('→')} ${segment.risks.join(', ')}`
+        );
+      });
+      if (analysis.parseError) {
+        console.log(chalk.yellow(`  could not parse: ${analysis.parseError} → unknown`));
+      }
+      console.log('');
+    }
+
+    console.log(chalk.bold('Resolution:'));
+    resolved.trace.forEach((step, index) => {
+      const isLast = index === resolved.trace.length - 1;
+      console.log(`  ${isLast ? chalk.green('→') : chalk.dim('·')} ${step}`);
+    });
+    console.log('');
+
+    console.log(chalk.bold('Decision: '), colorAction(resolved.rule.action));
+    const origin = resolved.overlay ? `, overlay ${resolved.overlay}` : '';
+    console.log(
+      chalk.bold('Source:   '),
+      chalk.white(`${resolved.source} (${resolved.key}${origin})`)
+    );
+    if (resolved.rule.description) {
+      console.log(chalk.bold('Reason:   '), chalk.dim(resolved.rule.description));
+    }
+    const { action, rewrite, limit, approvers, approvalTimeout } = resolved.rule;
+    if (limit) {
+      console.log(
+        chalk.bold('Limit:    '),
+        chalk.dim(`${describeLimit(resolved.key, limit)}, then ${limit.onExceed || 'DENY'}`)
+      );
+    }
+    if (approvers && action === 'ASK') {
+      console.log(chalk.bold('Approvers:'), chalk.dim(describeQuorum(approvers)));
+    }
+    if (approvalTimeout && action === 'ASK') {
+      console.log(chalk.bold('Timeout:  '), chalk.dim(describeApprovalTimeout(approvalTimeout)));
+    }
+    if (rewrite && (action === 'REWRITE' || action === 'ASK')) {
+      const result = applyRewrite(rewrite, params);
+      console.log(chalk.bold('Rewrite:  '));
+      result.changes.forEach((change) => console.log(`  ${chalk.blue(change)}`));
+      result.problems.forEach((problem) =>
+        console.log(chalk.yellow(`  not possible: ${problem} → ASK`))
+      );
+      if (result.changes.length === 0 && result.problems.length === 0) {
+        console.log(chalk.dim('  (nothing to change)'));
+      }
+    }
+    console.log('');
+  } catch (error) {
+    console.error(chalk.red('❌ Failed to explain policy:'), error);
+    logger.error('Policy explain failed', { error });
+    process.exit(1);
+  }
+}
+
+export async function policyValidateCommand(file?: string): Promise<void> {
+  const target = path.resolve(file || PolicyStore.getPath());
+
+  try {
+    if (!(await fs.pathExists(target))) {
+      console.error(chalk.red(`❌ File not found: ${target}`));
+      process.exit(1);
+    }
+
+    const { issues, migration } = PolicyStore.check(
+      await fs.readFile(target, 'utf8'),
+      PolicyStore.formatFor(target)
+    );
+
+    console.log('');
+    console.log(chalk.dim(`Policy: ${target}`));
+    if (migration) {
+      console.log(
+        chalk.yellow(
+          `⚠️  Version ${migration.fromVersion} is outdated; it will be migrated to ${CURRENT_POLICY_VERSION} on next load:`
+        )
+      );
+      migration.applied.forEach((m) =>
+        console.log(chalk.dim(`  ${m.from} → ${m.to}: ${m.description}`))
+      );
+    }
+
+    if (issues.length === 0) {
+      console.log(chalk.green('✅ Policy is valid'));
+      console.log('');
+      return;
+    }
+
+    console.log(chalk.red(`❌ ${issues.length} problem(s) found:`));
+    issues.forEach((issue) => console.log(`  ${chalk.cyan(issue.path)}: ${issue.message}`));
+    console.log('');
+    process.exit(1);
+  } catch (error) {
+    console.error(chalk.red('❌ Failed to validate policy:'), error);
+    logger.error('Policy validate failed', { error });
+    process.exit(1);
+  }
+}
+
+export async function policyExportCommand(options: {
+  format?: string;
+  output?: string;
+}): Promise<void> {
+  try {
+    const format = parseFormat(options.format, options.output);
+    const policy = await PolicyStore.load();
+    const content = PolicyStore.serialize(policy, format);
+
+    if (options.output) {
+      await fs.writeFile(path.resolve(options.output), content, 'utf8');
+      console.log(chalk.green(`✅ Policy exported to ${path.resolve(options.output)}`));
+    } else {
+      // Plain stdout so the output can be piped or redirected
+      process.stdout.write(content);
+    }
+  } catch (error) {
+    console.error(chalk.red('❌ Failed to export policy:'), error);
+    logger.error('Policy export failed', { error });
+    process.exit(1);
+  }
+}
+
+export async function policyApplyCommand(
+  file: string,
+  options: { dryRun?: boolean }
+): Promise<void> {
+  const source = path.resolve(file);
+
+  try {
+    if (!(await fs.pathExists(source))) {
+      console.error(chalk.red(`❌ File not found: ${source}`));
+      process.exit(1);
+    }
+
+    const { policy: incoming, issues } = PolicyStore.check(
+      await fs.readFile(source, 'utf8'),
+      PolicyStore.formatFor(source)
+    );
+
+    if (!incoming) {
+      console.error(chalk.red(`❌ ${source} is not a valid policy:`));
+      issues.forEach((issue) => console.error(`  ${chalk.cyan(issue.path)}: ${issue.message}`));
+      process.exit(1);
+    }
+
+    const current = await PolicyStore.load();
+    const changes = diffPolicies(current, incoming);
+
+    console.log('');
+    console.log(chalk.bold(`Changes from ${source}:`));
+    printChanges(changes);
+    console.log('');
+
+    if (changes.length === 0) {
+      console.log(chalk.dim('Policy already up to date.'));
+      return;
+    }
+
+    if (options.dryRun) {
+      console.log(chalk.yellow('Dry run — nothing written.'));
+      return;
+    }
+
+    await PolicyStore.save({
+      ...incoming,
+      createdAt: current.createdAt,
+      updatedAt: current.updatedAt,
+    });
+    console.log(chalk.green(`✅ Applied ${changes.length} change(s) to ${PolicyStore.getPath()}`));
+    console.log(chalk.dim('Changes are picked up automatically by the running gateway.'));
+  } catch (error) {
+    console.error(chalk.red('❌ Failed to apply policy:'), error);
+    logger.error('Policy apply failed', { error });
+    process.exit(1);
+  }
+}
+
+export async function policySetCommand(
+  target: string,
+  action: string,
+  options: { description?: string }
+): Promise<void> {
+  try {
+    const { moduleName, methodName } = parseRuleTarget(target);
+    const decision = parseAction(action);
+
+    const policy = await PolicyStore.load();
+    const rules = (policy.modules[moduleName] = policy.modules[moduleName] || {});
+    const existing = rules[methodName];
+
+    // Keep existing conditions; only the fallback action and description change
+    const rule: SecurityRule = { ...existing, action: decision };
+    if (options.description !== undefined) {
+      rule.description = options.description || undefined;
+    }
+    rules[methodName] = rule;
+
+    await saveEdited(policy);
+    console.log(
+      chalk.green(
+        `✅ ${moduleName}.${methodName}: ${existing ? `${existing.action} → ` : ''}${decision}`
+      )
+    );
+    console.log(chalk.dim('Changes are picked up automatically by the running gateway.'));
+  } catch (error) {
+    console.error(
+      chalk.red('❌ Failed to set rule:'),
+      error instanceof Error ? error.message : error
+    );
+    logger.error('Policy set failed', { error });
+    process.exit(1);
+  }
+}
+
+export async function policyUnsetCommand(target: string): Promise<void> {
+  try {
+    const { moduleName, methodName } = parseRuleTarget(target);
+    const policy = await PolicyStore.load();
+
+    if (!policy.modules[moduleName]?.[methodName]) {
+      console.log(chalk.yellow(`No rule for ${moduleName}.${methodName}`));
+      return;
+    }
+
+    delete policy.modules[moduleName][methodName];
+    if (Object.keys(policy.modules[moduleName]).length === 0) {
+      delete policy.modules[moduleName];
+    }
+
+    await saveEdited(policy);
+    console.log(chalk.green(`✅ Removed rule ${moduleName}.${methodName}`));
+    console.log(chalk.dim('Changes are picked up automatically by the running gateway.'));
+  } catch (error) {
+    console.error(
+      chalk.red('❌ Failed to remove rule:'),
+      error instanceof Error ? error.message : error
+    );
+    logger.error('Policy unset failed', { error });
+    process.exit(1);
+  }
+}
+
+/**
+ * Save a policy edited by `policy set`/`unset`, refusing it if the edit left it
+ * invalid (as `policy apply` refuses an invalid file)
+ */
+async function saveEdited(policy: PersistedPolicy): Promise<void> {
+  const issues = validatePolicy(policy);
+  if (issues.length > 0) {
+    throw new Error(`the edited policy would not be valid:\n${formatIssues(issues)}`);
+  }
+  await PolicyStore.save(policy);
+}
+
+/**
+ * Split "Module.method" (or "Module.*") into its parts
+ */
+function parseRuleTarget(target: string): { moduleName: string; methodName: string } {
+  const dot = target.indexOf('.');
+  if (dot <= 0 || dot === target.length - 1) {
+    throw new Error(`Expected Module.method (e.g. Shell.bash or Shell.*), got "${target}"`);
+  }
+  return { moduleName: target.slice(0, dot), methodName: target.slice(dot + 1) };
+}
+
+function parseAction(action: string): Decision {
+  const decision = action.toUpperCase();
+  if (decision !== 'ALLOW' && decision !== 'ASK' && decision !== 'DENY') {
+    throw new Error(`Action must be ALLOW, ASK or DENY, got "${action}"`);
+  }
+  return decision;
+}
+
+function parseFormat(format: string | undefined, file?: string): PolicyFormat {
+  if (format === undefined) {
+    return PolicyStore.formatFor(file || '');
+  }
+  if (format !== 'json' && format !== 'yaml') {
+    throw new Error(`--format must be json or yaml, got "${format}"`);
+  }
+  return format;
+}
+
+function describeValue(value: unknown): string {
+  if (value && typeof value === 'object' && 'action' in value) {
+    const rule = value as SecurityRule;
+    const conditions = rule.conditions?.length ? ` +${rule.conditions.length} condition(s)` : '';
+    const description = rule.description ? ` - ${rule.description}` : '';
+    return `${colorAction(rule.action)}${chalk.dim(conditions + description)}`;
+  }
+  return typeof value === 'string' ? colorAction(value) : JSON.stringify(value);
+}
+
+function printChanges(changes: PolicyChange[]): void {
+  if (changes.length === 0) {
+    console.log(chalk.dim('  (no changes)'));
+    return;
+  }
+  changes.forEach((change) => {
+    if (change.kind === 'added') {
+      console.log(`  ${chalk.green('+')} ${change.key}: ${describeValue(change.after)}`);
+    } else if (change.kind === 'removed') {
+      console.log(`  ${chalk.red('-')} ${change.key}: ${describeValue(change.before)}`);
+    } else {
+      console.log(
+        `  ${chalk.yellow('~')} ${change.key}: ${describeValue(change.before)} → ${describeValue(change.after)}`
+      );
+    }
+  });
+}
+
+/**
+ * " [active now: weekdays 09:00–18:00]" for a condition with a schedule, "" otherwise.
+ */
+function scheduleState(
+  schedule: Schedule | Schedule[] | undefined,
+  now: Date,
+  timezone?: string
+): string {
+  if (!schedule) return '';
+  const schedules = ([] as Schedule[]).concat(schedule);
+  const active = schedules.find((s) => matchesSchedule(s, now, timezone));
+  return active
+    ? chalk.green(` [active now: ${describeSchedule(active)}]`)
+    : chalk.dim(` [inactive: ${schedules.map(describeSchedule).join(', ')}]`);
+}
+
+/**
+ * "unanswered after 10m → escalate to oncall for 5m, then DENY"
+ */
+function describeApprovalTimeout(timeout: ApprovalTimeout): string {
+  const ttl = parseDuration(timeout.ttl);
+  const retryWindow = parseDuration(timeout.retryWindow);
+  const escalationTtl = parseDuration(timeout.escalationTtl) ?? ttl;
+  const escalateTo = ([] as string[]).concat(timeout.escalateTo ?? []);
+  return (
+    `unanswered after ${ttl ? formatDuration(ttl) : 'the default time'} → ` +
+    (timeout.onTimeout === 'escalate'
+      ? `escalate to ${escalateTo.join(', ')}` +
+        (escalationTtl ? ` for ${formatDuration(escalationTtl)}` : '') +
+        ', then DENY'
+      : 'DENY') +
+    (retryWindow ? ` (retry window ${formatDuration(retryWindow)})` : '')
+  );
+}
+
+function colorAction(action: string): string {
+  return action === 'ALLOW'
+    ? chalk.green(action)
+    : action === 'DENY'
+      ? chalk.red(action)
+      : action === 'REWRITE'
+        ? chalk.blue(action)
+        : chalk.yellow(action);
+}
@@ -27,6 +27,7 @@ export async function statsCommand(): Promise<void> {
     const rejectedPct = ((stats.rejected / stats.totalCalls) * 100).toFixed(1);
     const blockedPct = ((stats.blocked / stats.totalCalls) * 100).toFixed(1);
     const allowedPct = ((stats.allowed / stats.totalCalls) * 100).toFixed(1);
+    const timedOutPct = ((stats.timedOut / stats.totalCalls) * 100).toFixed(1);
 
     console.log(chalk.bold('Total Calls:'), chalk.white(stats.totalCalls.toString()));
     console.log('');
@@ -44,6 +45,9 @@ export async function statsCommand(): Promise<void> {
     console.log(
       `  ${chalk.red('🚫 Blocked:')}  ${stats.blocked.toString().padStart(6)} (${blockedPct}%) - by policy`
     );
+    console.log(
+      `  ${chalk.yellow('⌛ Timed out:')}${stats.timedOut.toString().padStart(6)} (${timedOutPct}%) - no answer in time`
+    );
     console.log('');
 
     console.log(
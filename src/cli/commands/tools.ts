@@ -0,0 +1,83 @@
+/**
+ * ClawBands Tools Command
+ * Lists tool-to-module mappings and tools seen without one
+ */
+
+import chalk from 'chalk';
+import { PolicyStore } from '../../storage/PolicyStore';
+import { DecisionLog } from '../../storage/DecisionLog';
+import { getToolMapping, UNKNOWN_MODULE } from '../../plugin/tool-interceptor';
+import { logger } from '../../core/Logger';
+
+export async function toolsCommand(): Promise<void> {
+  console.log('');
+  console.log(chalk.bold.cyan('═'.repeat(80)));
+  console.log(chalk.bold.cyan('   🧰 ClawBands Tool Mappings'));
+  console.log(chalk.bold.cyan('═'.repeat(80)));
+  console.log('');
+
+  try {
+    const policy = await PolicyStore.load();
+
+    // Custom mappings take precedence, so list them first
+    console.log(chalk.bold('Custom mappings (policy.json → tools):'));
+    const custom = policy.tools || [];
+    if (custom.length === 0) {
+      console.log(chalk.dim('  (none)'));
+    }
+    custom.forEach((mapping) => {
+      const matcher = mapping.tool !== undefined ? mapping.tool : `/${mapping.pattern}/`;
+      const method = mapping.method || chalk.dim('(from tool name)');
+      console.log(`  ${matcher.padEnd(30)} → ${chalk.cyan(mapping.module)}.${method}`);
+    });
+    console.log('');
+
+    console.log(chalk.bold('Built-in mappings:'));
+    Object.entries(getToolMapping()).forEach(([tool, { module, method }]) => {
+      console.log(`  ${tool.padEnd(30)} → ${chalk.cyan(module)}.${method}`);
+    });
+    console.log('');
+
+    // Unmapped tools land in the Unknown module with their raw name as method
+    const seen = new Map<string, { count: number; lastSeen: string }>();
+    for (const entry of await DecisionLog.readAll()) {
+      if (DecisionLog.isEvent(entry) || entry.module !== UNKNOWN_MODULE) continue;
+      const current = seen.get(entry.method);
+      seen.set(entry.method, {
+        count: (current?.count ?? 0) + 1,
+        lastSeen: entry.timestamp,
+      });
+    }
+
+    console.log(chalk.bold('Recently seen unmapped tools:'));
+    if (seen.size === 0) {
+      console.log(chalk.dim('  (none)'));
+    }
+    Array.from(seen.entries())
+      .sort((a, b) => b[1].lastSeen.localeCompare(a[1].lastSeen))
+      .forEach(([tool, { count, lastSeen }]) => {
+        console.log(
+          `  ${chalk.yellow(tool.padEnd(30))} ${chalk.dim(
+            `${count} call(s), last ${new Date(lastSeen).toLocaleString()}`
+          )}`
+        );
+      });
+    if (seen.size > 0) {
+      console.log('');
+      console.log(
+        chalk.dim(
+          `Unmapped tools fall back to ${UNKNOWN_MODULE}.<tool> rules, then defaultAction (${policy.defaultAction}).`
+        )
+      );
+      console.log(
+        chalk.dim('Map them under "tools" in policy.json, e.g. ') +
+          chalk.white('{ "tool": "mcp__github__*", "module": "GitHub" }')
+      );
+    }
+    console.log('');
+  } catch (error) {
+    console.error(chalk.red('❌ Failed to list tools:'), error);
+    logger.error('Tools command failed', { error });
+    process.exit(1);
+  }
+}
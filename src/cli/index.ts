@@ -6,10 +6,27 @@
 
 import { Command } from 'commander';
 import { initWizard } from './init';
-import { policyCommand } from './commands/policy';
+import {
+  policyCommand,
+  policyExplainCommand,
+  policyValidateCommand,
+  policyExportCommand,
+  policyApplyCommand,
+  policySetCommand,
+  policyUnsetCommand,
+} from './commands/policy';
 import { statsCommand } from './commands/stats';
-import { auditCommand } from './commands/audit';
+import { auditCommand, auditVerifyCommand, auditKeygenCommand } from './commands/audit';
 import { resetCommand } from './commands/reset';
+import { approveCommand, denyCommand, pendingCommand } from './commands/pending';
+import {
+  grantsConfirmCommand,
+  grantsListCommand,
+  grantsRevokeAllCommand,
+  grantsRevokeCommand,
+} from './commands/grants';
+import { toolsCommand } from './commands/tools';
+import { notifyTestCommand } from './commands/notify';
 import { disableCommand, enableCommand } from './commands/toggle';
 
 const program = new Command();
@@ -23,18 +40,121 @@ program
   .action(initWizard);
 
 // Manage security policies
-program.command('policy').description('Manage security policies').action(policyCommand);
+const policy = program
+  .command('policy')
+  .description('Manage security policies')
+  .action(policyCommand);
+
+policy
+  .command('explain <tool>')
+  .description('Show which rule applies to a tool (e.g. "bash" or "Shell.bash") and why')
+  .option('-p, --params <json>', 'Tool params as JSON, to evaluate rule conditions')
+  .option('-a, --agent <id>', 'Agent id, to evaluate overlays')
+  .option(
+    '-s, --session <key>',
+    'Session key, to evaluate overlays (e.g. agent:main:whatsapp:group:123)'
+  )
+  .action(policyExplainCommand);
+
+policy
+  .command('validate [file]')
+  .description('Validate a policy file (defaults to the active policy.json)')
+  .action(policyValidateCommand);
+
+policy
+  .command('export')
+  .description('Print the current policy (or write it to a file)')
+  .option(
+    '-f, --format <format>',
+    'Output format: yaml or json (default: from --output, else json)'
+  )
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action(policyExportCommand);
+
+policy
+  .command('apply <file>')
+  .description('Replace the policy with a YAML/JSON file, showing a rule-by-rule diff')
+  .option('--dry-run', 'Show the diff without writing anything')
+  .action(policyApplyCommand);
+
+policy
+  .command('set <rule> <action>')
+  .description('Set the action of a rule, e.g. "policy set Shell.bash DENY"')
+  .option('-d, --description <text>', 'Rule description shown in prompts and logs')
+  .action(policySetCommand);
+
+policy
+  .command('unset <rule>')
+  .description('Remove a rule, e.g. "policy unset Shell.bash"')
+  .action(policyUnsetCommand);
+
+// List tool mappings
+program
+  .command('tools')
+  .description('List tool-to-module mappings and recently seen unmapped tools')
+  .action(toolsCommand);
 
 // View statistics
 program.command('stats').description('View security statistics').action(statsCommand);
 
 // View audit trail
-program
+const audit = program
   .command('audit')
   .description('View decision audit trail')
   .option('-n, --lines <number>', 'Number of recent decisions to show', '50')
   .action(auditCommand);
 
+audit
+  .command('verify')
+  .description('Check the audit trail hash chain, signatures and checkpoints')
+  .action(auditVerifyCommand);
+
+audit
+  .command('keygen')
+  .description('Create the key used to sign audit lines and checkpoints')
+  .action(auditKeygenCommand);
+
+// Answer approvals from a terminal
+program
+  .command('pending')
+  .description('List approval requests waiting in the running gateway')
+  .action(pendingCommand);
+
+program.command('approve <id>').description('Approve a pending request').action(approveCommand);
+
+program.command('deny <id>').description('Deny a pending request').action(denyCommand);
+
+// Manage grants (persistent ALLOWs)
+const grants = program
+  .command('grants')
+  .description('List active grants (auto-approvals created by ALLOW)')
+  .action(grantsListCommand);
+
+grants.command('list').description('List active grants').action(grantsListCommand);
+
+grants
+  .command('confirm <id>')
+  .description('Confirm a grant asked for from the chat beyond its limits')
+  .action(grantsConfirmCommand);
+
+grants.command('revoke <id>').description('Revoke a grant by id').action(grantsRevokeCommand);
+
+grants
+  .command('revoke-all')
+  .description('Revoke every active grant')
+  .option('--session <key>', 'Only the grants of this session')
+  .option('-y, --yes', 'Do not ask for confirmation')
+  .action(grantsRevokeAllCommand);
+
+// Notifications
+const notify = program.command('notify').description('Notification sinks');
+
+notify
+  .command('test')
+  .description('Send a sample notification to every sink (or one, by name)')
+  .option('-s, --sink <name>', 'Only the sink with this name (or type)')
+  .action(notifyTestCommand);
+
 // Reset stats
 program.command('reset').description('Reset statistics').action(resetCommand);
 
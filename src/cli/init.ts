@@ -9,9 +9,10 @@ import fs from 'fs-extra';
 import path from 'path';
 import { isOpenClawInstalled, registerPlugin, isPluginRegistered } from '../plugin/config-manager';
 import { PolicyStore, PersistedPolicy } from '../storage/PolicyStore';
+import { CURRENT_POLICY_VERSION } from '../storage/PolicyMigrations';
 import { logger, CLAWBANDS_DATA_DIR } from '../core/Logger';
 import { DEFAULT_POLICY } from '../config';
-import { SecurityRule } from '../types';
+import { SecurityRule, ToolMapping } from '../types';
 import { getProtectedModules } from '../plugin/tool-interceptor';
 
 const SECURITY_PRESETS = {
@@ -129,11 +130,58 @@ export async function initWizard(): Promise<void> {
 
     console.log('');
 
-    // Step 3: Select modules to protect
-    console.log(chalk.bold('Step 3: Select which OpenClaw tools to protect'));
+    // Step 3: Map tools ClawBands does not know about (MCP servers, custom skills)
+    console.log(chalk.bold('Step 3: Map additional tools'));
+    console.log(
+      chalk.dim(
+        '  Unmapped tools land in module "Unknown". Run `clawbands tools` to see them later.'
+      )
+    );
     console.log('');
 
-    const availableModules = getProtectedModules();
+    const toolMappings: ToolMapping[] = [];
+    let { addMapping } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'addMapping',
+        message: 'Do your agents use other tools (MCP servers, custom skills) you want to map?',
+        default: false,
+      },
+    ]);
+
+    while (addMapping) {
+      const answers = await inquirer.prompt([
+        {
+          type: 'input',
+          name: 'tool',
+          message: 'Tool name (* is a wildcard, e.g. "mcp__github__*"):',
+          validate: (input: string) => (input.trim() ? true : 'Tool name cannot be empty'),
+        },
+        {
+          type: 'input',
+          name: 'module',
+          message: 'Module name (e.g. "GitHub"):',
+          validate: (input: string) => (input.trim() ? true : 'Module name cannot be empty'),
+        },
+        {
+          type: 'confirm',
+          name: 'more',
+          message: 'Map another tool?',
+          default: false,
+        },
+      ]);
+      toolMappings.push({ tool: answers.tool.trim(), module: answers.module.trim() });
+      addMapping = answers.more;
+    }
+
+    console.log('');
+
+    // Step 4: Select modules to protect
+    console.log(chalk.bold('Step 4: Select which OpenClaw tools to protect'));
+    console.log('');
+
+    const availableModules = getProtectedModules(toolMappings);
+    const customModules = toolMappings.map((mapping) => mapping.module);
 
     const { selectedModules } = await inquirer.prompt([
       {
@@ -143,15 +191,15 @@ export async function initWizard(): Promise<void> {
         choices: availableModules.map((mod) => ({
           name: mod,
           value: mod,
-          checked: ['FileSystem', 'Shell', 'Browser'].includes(mod), // Default selections
+          checked: ['FileSystem', 'Shell', 'Browser', ...customModules].includes(mod), // Default selections
         })),
       },
     ]);
 
     console.log('');
 
-    // Step 4: Create the policy
-    console.log(chalk.bold('Step 4: Creating security policy...'));
+    // Step 5: Create the policy
+    console.log(chalk.bold('Step 5: Creating security policy...'));
 
     const selectedPreset = SECURITY_PRESETS[securityLevel as keyof typeof SECURITY_PRESETS];
     const modules: Record<string, Record<string, SecurityRule>> = {};
@@ -172,9 +220,10 @@ export async function initWizard(): Promise<void> {
     }
 
     const policy: PersistedPolicy = {
-      version: '1.0.0',
+      version: CURRENT_POLICY_VERSION,
       defaultAction: 'ASK',
       modules,
+      ...(toolMappings.length > 0 && { tools: toolMappings }),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -183,8 +232,8 @@ export async function initWizard(): Promise<void> {
     console.log(chalk.green(`✅ Policy saved to ${PolicyStore.getPath()}`));
     console.log('');
 
-    // Step 5: Install plugin in OpenClaw
-    console.log(chalk.bold('Step 5: Registering with OpenClaw...'));
+    // Step 6: Install plugin in OpenClaw
+    console.log(chalk.bold('Step 6: Registering with OpenClaw...'));
 
     // Find the project root (where openclaw.plugin.json lives)
     const pluginRoot = path.resolve(__dirname, '..', '..');
@@ -8,30 +8,223 @@
  *  3. before_tool_call intercepts clawbands_respond → queue.approve() or queue.deny()
  *  4. Agent retries blocked tool → queue.consume() → approved (Path A)
  *
+ * ALLOW answers become grants (GrantStore), persisted outside the queue.
+ *
+ * Out-of-band flow (`clawbands pending|approve|deny` via the control socket):
+ *  the human answers an entry by id from a terminal → approveById() / denyById()
+ *  → the agent's retry consumes the approval (Path A, answeredBy set).
+ *
+ * Wait mode (policy `approval.mode: "wait"`):
+ *  before_tool_call → ASK + no TTY → queue.wait() holds the call until the entry
+ *  is answered out-of-band (approveById / denyById) or the timeout passes.
+ *  Wait entries are not tied to a session key, so clawbands_respond cannot answer them.
+ *
+ * Every entry carries a fingerprint of the blocked call's arguments: an
+ * approval only covers a retry with identical arguments. A retry with other
+ * arguments drops the entry and needs a new approval (see mismatch()).
+ *
+ * One-time codes (policy `approval.codes`): every channel request gets a
+ * 6-digit code that clawbands_respond must echo, and a second one for ALLOW.
+ * approveByCode() approves only the entry the code belongs to, and only for
+ * the answer the code was made for; wrong, replayed and expired codes and
+ * codes given for the other answer are rejected, and repeated wrong codes
+ * deny the session's pending requests.
+ *
+ * Multi-party approval (rule `approvers`): the entry carries the quorum and
+ * collects one vote per eligible approver; it is approved once enough of them
+ * said yes, and dropped at the first no. Votes are kept on the entry so the
+ * decision record can list them. Such entries are never approved by a retry.
+ *
+ * Expiry (rule `approvalTimeout`): a pending entry lives DEFAULT_TTL_MS unless
+ * the rule says otherwise. When it runs out unanswered it is either dropped
+ * (onTimeout hook; the next request for the same call can tell the agent, see
+ * takeExpired()) or, once, escalated: the onEscalate hook pings other
+ * approvers and the entry stays open for the escalation time.
+ *
  * Fallback flow (retry-as-approval — when api.registerTool is not available):
  *  1. before_tool_call → ASK + no TTY → queue.request() → blocks
  *  2. Agent relays blockReason to user, user replies YES → agent retries
  *  3. before_tool_call → queue.consumePending() → approved (Path B, within 60s window)
  */
 
+import { createHash, randomInt, randomUUID } from 'crypto';
 import { logger } from './Logger';
+import { ApprovalVote, ApproverIdentity, ApproverQuorum } from '../types';
 
-interface ApprovalEntry {
+export interface ApprovalEntry {
   sessionKey: string;
   moduleName: string;
   methodName: string;
   status: 'pending' | 'approved' | 'denied';
   createdAt: number;
   expiresAt: number;
+  /** Lifetime the entry was given (rule's or queue default); an approval lasts as long */
+  ttlMs: number;
+  /** Links the blocked call, the approval and the retry in the audit trail */
+  correlationId: string;
+  /** Arguments of the blocked call, shown by `clawbands pending` */
+  args?: unknown[];
+  /** Fingerprint of the arguments (fingerprintArgs); a retry must match it */
+  fingerprint: string;
+  /** Why the policy asks (rule description) */
+  risk?: string;
+  /** Who answered out-of-band: local user (terminal) or callback client (absent for channel answers) */
+  answeredBy?: string;
+  /** How it was answered out-of-band */
+  answeredVia?: AnsweredVia;
+  /** One-time code clawbands_respond must echo to approve this entry (channel requests) */
+  code?: string;
+  /** One-time code that answers ALLOW instead of YES (none for multi-party entries) */
+  allowCode?: string;
+  /** Approvers the rule requires (multi-party approval) */
+  quorum?: ApproverQuorum;
+  /** Answers of the approvers so far (multi-party approval) */
+  votes?: ApprovalVote[];
+  /** How the approvers are recognized (policy `approval.identities`) */
+  identities?: Record<string, ApproverIdentity>;
+  /** Lifetime, retry window and escalation time set by the rule */
+  timeout?: RequestTimeout;
+  /** Expired once and was escalated */
+  escalated?: boolean;
+}
+
+/** Per-request timing (rule `approvalTimeout`), in milliseconds */
+export interface RequestTimeout {
+  /** Lifetime of the request (default DEFAULT_TTL_MS; wait() takes its own) */
+  ttlMs?: number;
+  /** Age up to which a bare retry approves (default CONSUME_MAX_AGE_MS) */
+  retryWindowMs?: number;
+  /** Extra time granted once when the request expires unanswered (escalation) */
+  escalateMs?: number;
+}
+
+/** Called as an entry goes through its life */
+export interface ApprovalHooks {
+  /** The entry can be answered (wait mode) */
+  onHold?: (entry: ApprovalEntry) => void;
+  /** The entry expired unanswered and got its escalation time */
+  onEscalate?: (entry: ApprovalEntry) => void;
+  /** The entry expired unanswered and was dropped (request(); wait() resolves with 'timeout') */
+  onTimeout?: (entry: ApprovalEntry) => void;
+}
+
+/** What the blocked call looked like, kept with the pending entry */
+export interface ApprovalDetails {
+  args?: unknown[];
+  risk?: string;
+  quorum?: ApproverQuorum;
+  /** Votes already cast (the terminal prompt's) */
+  votes?: ApprovalVote[];
+  identities?: Record<string, ApproverIdentity>;
+  timeout?: RequestTimeout;
 }
 
-/** Default time-to-live for an approval entry (2 minutes). */
-const DEFAULT_TTL_MS = 120_000;
+/**
+ * "2 of alice, bob, carol"
+ */
+export function describeQuorum(quorum: ApproverQuorum): string {
+  return `${quorum.required} of ${quorum.from.join(', ')}`;
+}
+
+/**
+ * The approver name a voter goes by: the name whose `user` (terminal prompt,
+ * `clawbands approve`) or `peer` (chat) it is. Approval links already carry
+ * the name. Undefined if no approver is declared as this voter.
+ */
+export function approverName(
+  identities: Record<string, ApproverIdentity> = {},
+  via: ApprovalVote['via'],
+  voter: string
+): string | undefined {
+  if (via === 'callback') return voter;
+  const match = Object.entries(identities).find(([, identity]) =>
+    via === 'channel'
+      ? ([] as string[]).concat(identity.peer ?? []).includes(voter)
+      : identity.user === voter
+  );
+  return match?.[0];
+}
+
+/** Approvals an entry has collected */
+export function countApprovals(entry: { votes?: ApprovalVote[] }): number {
+  return (entry.votes ?? []).filter((v) => v.vote === 'approve').length;
+}
+
+/** Object keys sorted at every level, so key order does not change the fingerprint */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * SHA-256 of the canonical JSON of a call's arguments.
+ */
+export function fingerprintArgs(args: unknown[] = []): string {
+  return createHash('sha256')
+    .update(JSON.stringify(canonicalize(args)) ?? '')
+    .digest('hex');
+}
+
+/** Out-of-band answers: `clawbands approve|deny` or a signed callback link */
+export type AnsweredVia = 'cli' | 'callback';
+
+/** Outcome of a call held in wait mode */
+export interface WaitOutcome {
+  correlationId: string;
+  answer: 'approved' | 'denied' | 'timeout';
+  /** Who answered */
+  answeredBy?: string;
+  answeredVia?: AnsweredVia;
+  /** Every approver's answer (multi-party approval) */
+  votes?: ApprovalVote[];
+  /** Expired once and was escalated before the answer (or the final timeout) */
+  escalated?: boolean;
+}
+
+/** Why clawbands_respond's code was not accepted ('decision': the code answers YES, not ALLOW, or vice versa) */
+export type CodeRejection = 'missing' | 'mismatch' | 'decision' | 'replay' | 'expired';
+
+/** The answer a one-time code was made for */
+export type CodeDecision = 'yes' | 'allow';
+
+export type CodeCheck =
+  | { ok: true; entry: ApprovalEntry }
+  | {
+      ok: false;
+      reason: CodeRejection;
+      /** Request the code belonged to (decision, replay, expired) */
+      correlationId?: string;
+      /** Pending requests denied because of too many wrong codes */
+      denied?: number;
+    };
+
+/** A code that can no longer approve anything */
+interface RetiredCode {
+  correlationId: string;
+  why: 'replay' | 'expired';
+  until: number;
+}
+
+/** How long used and expired codes are remembered, to report replays (1 hour). */
+const RETIRED_CODE_TTL_MS = 60 * 60 * 1000;
+
+/** Wrong codes in a row after which a session's pending requests are denied. */
+const MAX_CODE_FAILURES = 3;
+
+/** Default time-to-live for an approval entry (2 minutes), unless the rule sets one. */
+export const DEFAULT_TTL_MS = 120_000;
 
 /**
  * Maximum age for a pending entry to be consumed via retry-as-approval.
  * After this window, the pending is considered stale (user probably said NO or
- * moved on) and must be re-requested.
+ * moved on) and must be re-requested. A rule's `retryWindow` overrides it.
  */
 const CONSUME_MAX_AGE_MS = 60_000;
 
@@ -40,7 +233,16 @@ const CLEANUP_INTERVAL_MS = 30_000;
 
 export class ApprovalQueue {
   private entries = new Map<string, ApprovalEntry>();
-  private blanketAllows = new Map<string, number>(); // key → expiresAt
+  /** Used and expired codes, by session + code */
+  private retired = new Map<string, RetiredCode>();
+  /** Wrong codes in a row, by session */
+  private codeFailures = new Map<string, number>();
+  /** Held calls (wait mode) by correlation id, resolved with the answered entry */
+  private waiters = new Map<string, (entry: ApprovalEntry) => void>();
+  /** Expiry timers of pending entries, by correlation id */
+  private timers = new Map<string, NodeJS.Timeout>();
+  /** Entries that expired unanswered, by session + module.method */
+  private expired = new Map<string, { entry: ApprovalEntry; until: number }>();
   private lastCleanup = Date.now();
   private ttl: number;
 
@@ -71,56 +273,100 @@ export class ApprovalQueue {
    * Called when ASK fires in daemon mode and no prior approval exists.
    *
    * Idempotent: if a non-expired pending entry already exists within the retry
-   * window (CONSUME_MAX_AGE_MS), it is NOT overwritten — this preserves the
+   * window (CONSUME_MAX_AGE_MS, or the rule's), it is NOT overwritten — this preserves the
    * original createdAt timestamp so the retry window stays accurate.
-   * If the pending is past the retry window, it IS overwritten (fresh prompt).
+   * If the pending is past the retry window, or was made for other arguments,
+   * it IS overwritten (fresh prompt).
+   *
+   * A new entry expires after its ttl; `hooks` hear about its escalation and timeout.
    *
-   * Returns the composite key for reference.
+   * Returns the pending entry (the existing one when the request was skipped).
    */
-  request(sessionKey: string, moduleName: string, methodName: string): string {
+  request(
+    sessionKey: string,
+    moduleName: string,
+    methodName: string,
+    details: ApprovalDetails = {},
+    hooks: ApprovalHooks = {}
+  ): ApprovalEntry {
     this.maybeCleanup();
     const k = this.key(sessionKey, moduleName, methodName);
+    const fingerprint = fingerprintArgs(details.args);
     const existing = this.entries.get(k);
-    if (existing && existing.status === 'pending' && Date.now() < existing.expiresAt) {
+    if (
+      existing &&
+      existing.status === 'pending' &&
+      existing.fingerprint === fingerprint &&
+      Date.now() < existing.expiresAt
+    ) {
       const age = Date.now() - existing.createdAt;
-      if (age <= CONSUME_MAX_AGE_MS) {
+      // Votes already cast are kept until the request expires
+      if (age <= this.retryWindow(existing) || existing.quorum) {
         logger.debug(`ApprovalQueue: pending already exists within retry window, skipping`, {
           sessionKey,
           action: `${moduleName}.${methodName}`,
           ageMs: age,
         });
-        return k;
+        return existing;
       }
     }
-    this.entries.set(k, {
+    if (existing?.status === 'pending') {
+      this.retire(existing, 'expired');
+    }
+    const correlationId = randomUUID();
+    const ttlMs = details.timeout?.ttlMs ?? this.ttl;
+    const entry: ApprovalEntry = {
       sessionKey,
       moduleName,
       methodName,
       status: 'pending',
       createdAt: Date.now(),
-      expiresAt: Date.now() + this.ttl,
-    });
+      expiresAt: Date.now() + ttlMs,
+      ttlMs,
+      correlationId,
+      fingerprint,
+      code: this.newCode(sessionKey),
+      ...details,
+    };
+    // Multi-party entries are answered one vote at a time: no ALLOW
+    if (!entry.quorum) entry.allowCode = this.newCode(sessionKey, [entry.code!]);
+    this.entries.set(k, entry);
+    this.expired.delete(k);
+    this.schedule(k, entry, hooks);
     logger.info(`ApprovalQueue: pending request created`, {
       sessionKey,
       action: `${moduleName}.${methodName}`,
+      correlationId,
     });
-    return k;
+    return entry;
   }
 
   /**
    * Consume (remove) an approved entry so it can only be used once.
-   * Returns true if an approval was found and consumed.
+   * Only an approval for the same arguments (fingerprint) is consumed.
+   * Returns the consumed entry, or undefined if no approval was found.
    */
-  consume(sessionKey: string, moduleName: string, methodName: string): boolean {
+  consume(
+    sessionKey: string,
+    moduleName: string,
+    methodName: string,
+    fingerprint: string
+  ): ApprovalEntry | undefined {
     const k = this.key(sessionKey, moduleName, methodName);
     const entry = this.entries.get(k);
-    if (entry && entry.status === 'approved' && Date.now() < entry.expiresAt) {
+    if (
+      entry &&
+      entry.status === 'approved' &&
+      entry.fingerprint === fingerprint &&
+      Date.now() < entry.expiresAt
+    ) {
       this.entries.delete(k);
       logger.info(`ApprovalQueue: approval consumed`, {
         sessionKey,
         action: `${moduleName}.${methodName}`,
+        correlationId: entry.correlationId,
       });
-      return true;
+      return entry;
     }
     const expired = entry ? Date.now() >= entry.expiresAt : false;
     logger.debug(`ApprovalQueue.consume: not found/not approved`, {
@@ -130,42 +376,131 @@ export class ApprovalQueue {
       expired,
       queueSize: this.entries.size,
     });
-    return false;
+    return undefined;
   }
 
   /**
    * Consume (remove) a pending entry — used for retry-as-approval in channel mode.
    * When the agent retries a blocked tool call, the retry itself signals user approval.
    *
-   * Only consumes if the pending is within the retry window (CONSUME_MAX_AGE_MS).
-   * A stale pending (> 60s) is NOT consumed — the caller should create a fresh
+   * Only consumes if the pending is within the retry window (CONSUME_MAX_AGE_MS,
+   * or the rule's). A stale pending (> 60s by default) is NOT consumed — the caller should create a fresh
    * pending via request() so the user is prompted again.
    *
-   * Returns true if a pending entry was found and consumed.
+   * Only a pending entry for the same arguments (fingerprint) is consumed.
+   *
+   * Returns the consumed entry, or undefined if no usable pending was found.
    */
-  consumePending(sessionKey: string, moduleName: string, methodName: string): boolean {
+  consumePending(
+    sessionKey: string,
+    moduleName: string,
+    methodName: string,
+    fingerprint: string
+  ): ApprovalEntry | undefined {
     const k = this.key(sessionKey, moduleName, methodName);
     const entry = this.entries.get(k);
-    if (entry && entry.status === 'pending' && Date.now() < entry.expiresAt) {
+    if (
+      entry &&
+      entry.status === 'pending' &&
+      entry.fingerprint === fingerprint &&
+      Date.now() < entry.expiresAt
+    ) {
       const age = Date.now() - entry.createdAt;
-      if (age > CONSUME_MAX_AGE_MS) {
+      if (age > this.retryWindow(entry)) {
         logger.info(`ApprovalQueue: pending too old for retry-as-approval, will re-prompt`, {
           sessionKey,
           action: `${moduleName}.${methodName}`,
           ageMs: age,
-          maxAgeMs: CONSUME_MAX_AGE_MS,
+          maxAgeMs: this.retryWindow(entry),
         });
-        return false;
+        return undefined;
       }
       this.entries.delete(k);
       logger.info(`ApprovalQueue: pending consumed (retry-as-approval)`, {
         sessionKey,
         action: `${moduleName}.${methodName}`,
         ageMs: age,
+        correlationId: entry.correlationId,
+      });
+      return entry;
+    }
+    return undefined;
+  }
+
+  /**
+   * The live entry for this session + module.method, if it was made for other
+   * arguments — the retry does not match what the human saw. The caller
+   * replaces it with a fresh request().
+   */
+  mismatch(
+    sessionKey: string,
+    moduleName: string,
+    methodName: string,
+    fingerprint: string
+  ): ApprovalEntry | undefined {
+    const entry = this.entries.get(this.key(sessionKey, moduleName, methodName));
+    if (!entry || entry.fingerprint === fingerprint || Date.now() >= entry.expiresAt) {
+      return undefined;
+    }
+    logger.info(`ApprovalQueue: retry arguments differ from the request`, {
+      sessionKey,
+      action: `${moduleName}.${methodName}`,
+      correlationId: entry.correlationId,
+      status: entry.status,
+    });
+    return entry;
+  }
+
+  /**
+   * Approve the pending entry of a session whose one-time code for `decision`
+   * matches. Called when clawbands_respond carries a code. The entry's codes are
+   * used up once it is approved; a wrong code, or the code of the other answer,
+   * counts towards MAX_CODE_FAILURES, after which the session's pending requests
+   * are denied. Throws if `approver`'s vote on a multi-party entry does not count.
+   */
+  approveByCode(
+    sessionKey: string,
+    code: string | undefined,
+    approver: string = '',
+    decision: CodeDecision = 'yes'
+  ): CodeCheck {
+    this.maybeCleanup();
+    const given = (code ?? '').trim();
+    if (!given) return { ok: false, reason: 'missing' };
+
+    const entry = this.keysForSession(sessionKey)
+      .map((k) => this.entries.get(k)!)
+      .find((e) => e.status === 'pending' && (e.code === given || e.allowCode === given));
+    if (entry && (decision === 'allow' ? entry.allowCode : entry.code) !== given) {
+      // A YES code cannot stand for ALLOW (or the other way round)
+      logger.warn(`ApprovalQueue: code given for another answer`, {
+        sessionKey,
+        correlationId: entry.correlationId,
+        decision,
+      });
+      return this.codeFailure(sessionKey, 'decision', entry.correlationId);
+    }
+    if (entry && Date.now() < entry.expiresAt) {
+      // A multi-party entry keeps its code for the other approvers
+      if (this.recordApproval(entry, approver, 'channel')) this.retire(entry, 'replay');
+      this.codeFailures.delete(sessionKey);
+      logger.info(`ApprovalQueue: approved with code`, {
+        sessionKey,
+        action: `${entry.moduleName}.${entry.methodName}`,
+        correlationId: entry.correlationId,
       });
-      return true;
+      return { ok: true, entry };
+    }
+    if (entry) {
+      this.retire(entry, 'expired');
+    }
+
+    const retired = this.retired.get(`${sessionKey}::${given}`);
+    if (retired) {
+      return { ok: false, reason: retired.why, correlationId: retired.correlationId };
     }
-    return false;
+
+    return this.codeFailure(sessionKey, 'mismatch');
   }
 
   /**
@@ -173,15 +508,20 @@ export class ApprovalQueue {
    * Called when the user replies YES on the messaging channel.
    * Returns the number of entries approved.
    */
-  approve(sessionKey: string): number {
+  approve(sessionKey: string, approver: string = ''): number {
     this.maybeCleanup();
     let count = 0;
     for (const k of this.keysForSession(sessionKey)) {
       const entry = this.entries.get(k)!;
       if (entry.status === 'pending' && Date.now() < entry.expiresAt) {
-        entry.status = 'approved';
-        // Reset TTL from the moment of approval
-        entry.expiresAt = Date.now() + this.ttl;
+        let approved: boolean;
+        try {
+          approved = this.recordApproval(entry, approver, 'channel');
+        } catch (error) {
+          logger.info(`ApprovalQueue: vote not counted`, { sessionKey, error });
+          continue;
+        }
+        if (!approved) continue;
         count++;
         logger.info(`ApprovalQueue: approved`, {
           sessionKey,
@@ -204,6 +544,7 @@ export class ApprovalQueue {
       const entry = this.entries.get(k)!;
       if (entry.status === 'pending') {
         this.entries.delete(k);
+        this.retire(entry, 'expired');
         count++;
         logger.info(`ApprovalQueue: denied`, {
           sessionKey,
@@ -232,48 +573,300 @@ export class ApprovalQueue {
     return result;
   }
 
+  /**
+   * Get all pending actions for a session (module/method pairs).
+   * Used by the ALLOW handler to know which methods to grant.
+   */
+  getPendingActions(sessionKey: string): Array<{
+    moduleName: string;
+    methodName: string;
+    correlationId: string;
+    quorum?: ApproverQuorum;
+  }> {
+    return this.keysForSession(sessionKey)
+      .map((k) => this.entries.get(k)!)
+      .filter((e) => e.status === 'pending' && Date.now() < e.expiresAt)
+      .map((e) => ({
+        moduleName: e.moduleName,
+        methodName: e.methodName,
+        correlationId: e.correlationId,
+        quorum: e.quorum,
+      }));
+  }
+
   // ---------------------------------------------------------------------------
-  // Blanket allows (time-limited auto-approve)
+  // Out-of-band answers (control socket)
   // ---------------------------------------------------------------------------
 
   /**
-   * Auto-approve a module.method for this session during durationMs.
-   * In-memory only — does not modify policy.json.
+   * All pending entries, oldest first.
    */
-  allowFor(sessionKey: string, moduleName: string, methodName: string, durationMs: number): void {
+  listPending(): ApprovalEntry[] {
+    this.maybeCleanup();
+    return Array.from(this.entries.values())
+      .filter((e) => e.status === 'pending' && Date.now() < e.expiresAt)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * The request for this session + module.method that expired unanswered
+   * (within the last hour), forgotten once taken.
+   */
+  takeExpired(
+    sessionKey: string,
+    moduleName: string,
+    methodName: string
+  ): ApprovalEntry | undefined {
+    this.maybeCleanup();
     const k = this.key(sessionKey, moduleName, methodName);
-    this.blanketAllows.set(k, Date.now() + durationMs);
-    logger.info(`ApprovalQueue: blanket allow created`, {
+    const expired = this.expired.get(k);
+    this.expired.delete(k);
+    return expired?.entry;
+  }
+
+  /**
+   * Requests of a session that expired unanswered (within the last hour).
+   */
+  listExpired(sessionKey: string): ApprovalEntry[] {
+    this.maybeCleanup();
+    return Array.from(this.expired.values())
+      .map(({ entry }) => entry)
+      .filter((e) => e.sessionKey === sessionKey);
+  }
+
+  /**
+   * Register a pending entry and wait until it is answered out-of-band
+   * (approveById / denyById) or the timeout passes (plus the escalation time,
+   * if any). The entry is removed either way. `hooks.onHold` is called with the
+   * entry once it can be answered, `hooks.onEscalate` if it gets escalated.
+   */
+  wait(
+    sessionKey: string | undefined,
+    moduleName: string,
+    methodName: string,
+    details: ApprovalDetails,
+    timeoutMs: number,
+    hooks: ApprovalHooks = {}
+  ): Promise<WaitOutcome> {
+    this.maybeCleanup();
+    const correlationId = randomUUID();
+    const k = `wait::${correlationId}`;
+    const entry: ApprovalEntry = {
+      sessionKey: sessionKey ?? '',
+      moduleName,
+      methodName,
+      status: 'pending',
+      createdAt: Date.now(),
+      expiresAt: Date.now() + timeoutMs,
+      ttlMs: timeoutMs,
+      correlationId,
+      fingerprint: fingerprintArgs(details.args),
+      ...details,
+    };
+    this.entries.set(k, entry);
+    logger.info(`ApprovalQueue: holding call for an out-of-band answer`, {
       sessionKey,
       action: `${moduleName}.${methodName}`,
-      durationMs,
+      correlationId,
+      timeoutMs,
+    });
+    hooks.onHold?.(entry);
+
+    return new Promise((resolve) => {
+      const finish = (): void => {
+        clearTimeout(this.timers.get(correlationId));
+        this.timers.delete(correlationId);
+        this.entries.delete(k);
+        this.waiters.delete(correlationId);
+      };
+      const arm = (): void => {
+        const timer = setTimeout(() => {
+          if (this.escalate(entry)) {
+            hooks.onEscalate?.(entry);
+            return arm();
+          }
+          finish();
+          logger.info(`ApprovalQueue: held call timed out`, { correlationId });
+          resolve({
+            correlationId,
+            answer: 'timeout',
+            votes: entry.votes,
+            escalated: entry.escalated,
+          });
+        }, entry.expiresAt - Date.now());
+        this.timers.set(correlationId, timer);
+      };
+      arm();
+      this.waiters.set(correlationId, (entry) => {
+        finish();
+        resolve({
+          correlationId,
+          answer: entry.status === 'approved' ? 'approved' : 'denied',
+          answeredBy: entry.answeredBy,
+          answeredVia: entry.answeredVia,
+          votes: entry.votes,
+          escalated: entry.escalated,
+        });
+      });
     });
   }
 
   /**
-   * Check if a blanket allow is active for this session + method.
-   * Expired entries are cleaned up on access.
+   * Approve one pending entry by correlation id (or unique prefix). A
+   * multi-party entry records the vote and stays pending until the quorum is met.
+   * Returns the entry, or undefined if no pending entry matched; throws if the
+   * vote does not count.
    */
-  hasBlanketAllow(sessionKey: string, moduleName: string, methodName: string): boolean {
-    const k = this.key(sessionKey, moduleName, methodName);
-    const expiresAt = this.blanketAllows.get(k);
-    if (!expiresAt) return false;
-    if (Date.now() >= expiresAt) {
-      this.blanketAllows.delete(k);
-      return false;
+  approveById(id: string, answeredBy: string, via: AnsweredVia = 'cli'): ApprovalEntry | undefined {
+    const entry = this.findPending(id);
+    if (!entry) return undefined;
+    if (!this.recordApproval(entry, answeredBy, via)) return entry;
+    entry.answeredBy = answeredBy;
+    entry.answeredVia = via;
+    logger.info(`ApprovalQueue: approved out-of-band`, {
+      sessionKey: entry.sessionKey,
+      action: `${entry.moduleName}.${entry.methodName}`,
+      correlationId: entry.correlationId,
+      answeredBy,
+      via,
+    });
+    this.waiters.get(entry.correlationId)?.(entry);
+    return entry;
+  }
+
+  /**
+   * Deny (remove) one pending entry by correlation id (or unique prefix).
+   * Returns the denied entry, or undefined if no pending entry matched.
+   */
+  denyById(id: string, answeredBy: string, via: AnsweredVia = 'cli'): ApprovalEntry | undefined {
+    const entry = this.findPending(id);
+    if (!entry) return undefined;
+    for (const [k, e] of this.entries) {
+      if (e === entry) this.entries.delete(k);
+    }
+    entry.status = 'denied';
+    entry.answeredBy = answeredBy;
+    entry.answeredVia = via;
+    if (entry.quorum) {
+      const approver = approverName(entry.identities, via, answeredBy) ?? answeredBy;
+      entry.votes = [...(entry.votes ?? []), this.vote(approver, 'deny', via)];
     }
+    logger.info(`ApprovalQueue: denied out-of-band`, {
+      sessionKey: entry.sessionKey,
+      action: `${entry.moduleName}.${entry.methodName}`,
+      correlationId: entry.correlationId,
+      answeredBy,
+      via,
+    });
+    this.waiters.get(entry.correlationId)?.(entry);
+    return entry;
+  }
+
+  /**
+   * Approve an entry, or count the vote of the approver `voter` is (see
+   * approverName()) on a multi-party entry (approved once the quorum is met).
+   * Throws if the vote does not count. Returns whether the entry is now approved.
+   */
+  private recordApproval(entry: ApprovalEntry, voter: string, via: ApprovalVote['via']): boolean {
+    const { quorum } = entry;
+    if (quorum) {
+      const action = `${entry.moduleName}.${entry.methodName}`;
+      const approver = approverName(entry.identities, via, voter);
+      if (!approver || !quorum.from.includes(approver)) {
+        throw new Error(
+          `${voter || 'This channel'} is not an approver of ${action} (approvers: ${quorum.from.join(', ')})`
+        );
+      }
+      if (entry.votes?.some((v) => v.approver === approver)) {
+        throw new Error(`${approver} has already approved ${action}`);
+      }
+      entry.votes = [...(entry.votes ?? []), this.vote(approver, 'approve', via)];
+      logger.info(`ApprovalQueue: vote recorded`, {
+        action,
+        correlationId: entry.correlationId,
+        approver,
+        approvals: `${countApprovals(entry)}/${quorum.required}`,
+      });
+      if (countApprovals(entry) < quorum.required) return false;
+    }
+    entry.status = 'approved';
+    // Reset the entry's own TTL from the moment of approval
+    entry.expiresAt = Date.now() + entry.ttlMs;
     return true;
   }
 
+  /** How long after the request a bare retry still approves it */
+  private retryWindow(entry: ApprovalEntry): number {
+    return entry.timeout?.retryWindowMs ?? CONSUME_MAX_AGE_MS;
+  }
+
+  /** Run expire() when a pending entry's time is up */
+  private schedule(k: string, entry: ApprovalEntry, hooks: ApprovalHooks): void {
+    const timer = setTimeout(
+      () => {
+        this.timers.delete(entry.correlationId);
+        this.expire(k, entry, hooks);
+      },
+      Math.max(0, entry.expiresAt - Date.now())
+    );
+    // Never keep the process alive just for an expiry
+    timer.unref();
+    this.timers.set(entry.correlationId, timer);
+  }
+
   /**
-   * Get all pending actions for a session (module/method pairs).
-   * Used by the ALLOW handler to know which methods to blanket-allow.
+   * A pending entry's time is up: escalate it (once, if the rule says so) or
+   * drop it and remember it expired. Answered or replaced entries are left alone.
    */
-  getPendingActions(sessionKey: string): Array<{ moduleName: string; methodName: string }> {
-    return this.keysForSession(sessionKey)
-      .map((k) => this.entries.get(k)!)
-      .filter((e) => e.status === 'pending' && Date.now() < e.expiresAt)
-      .map((e) => ({ moduleName: e.moduleName, methodName: e.methodName }));
+  private expire(k: string, entry: ApprovalEntry, hooks: ApprovalHooks): void {
+    if (this.entries.get(k) !== entry || entry.status !== 'pending') return;
+    if (this.escalate(entry)) {
+      this.schedule(k, entry, hooks);
+      hooks.onEscalate?.(entry);
+      return;
+    }
+    this.entries.delete(k);
+    this.retire(entry, 'expired');
+    this.expired.set(k, { entry, until: Date.now() + RETIRED_CODE_TTL_MS });
+    logger.info(`ApprovalQueue: request expired unanswered`, {
+      sessionKey: entry.sessionKey,
+      action: `${entry.moduleName}.${entry.methodName}`,
+      correlationId: entry.correlationId,
+    });
+    hooks.onTimeout?.(entry);
+  }
+
+  /** Give an unanswered entry its escalation time, once. Returns whether it did. */
+  private escalate(entry: ApprovalEntry): boolean {
+    const extraMs = entry.timeout?.escalateMs;
+    if (extraMs === undefined || entry.escalated) return false;
+    entry.escalated = true;
+    entry.expiresAt = Date.now() + extraMs;
+    logger.info(`ApprovalQueue: request escalated`, {
+      sessionKey: entry.sessionKey,
+      action: `${entry.moduleName}.${entry.methodName}`,
+      correlationId: entry.correlationId,
+      extraMs,
+    });
+    return true;
+  }
+
+  private vote(
+    approver: string,
+    vote: ApprovalVote['vote'],
+    via: ApprovalVote['via']
+  ): ApprovalVote {
+    return { approver, vote, via, at: new Date().toISOString() };
+  }
+
+  private findPending(id: string): ApprovalEntry | undefined {
+    const matches = this.listPending().filter((e) => e.correlationId.startsWith(id));
+    if (matches.length > 1) {
+      throw new Error(
+        `Approval id "${id}" is ambiguous (${matches.map((e) => e.correlationId.slice(0, 8)).join(', ')})`
+      );
+    }
+    return matches[0];
   }
 
   // ---------------------------------------------------------------------------
@@ -289,17 +882,72 @@ export class ApprovalQueue {
   private cleanup(): void {
     const now = Date.now();
     for (const [k, entry] of this.entries) {
+      // A pending entry with a timer is left to expire() (it may be escalated)
+      if (entry.status === 'pending' && this.timers.has(entry.correlationId)) continue;
       if (now >= entry.expiresAt) {
         this.entries.delete(k);
+        if (entry.status === 'pending') this.retire(entry, 'expired');
+      }
+    }
+    for (const [k, code] of this.retired) {
+      if (now >= code.until) {
+        this.retired.delete(k);
       }
     }
-    for (const [k, expiresAt] of this.blanketAllows) {
-      if (now >= expiresAt) {
-        this.blanketAllows.delete(k);
+    for (const [k, expired] of this.expired) {
+      if (now >= expired.until) {
+        this.expired.delete(k);
       }
     }
     this.lastCleanup = now;
   }
+
+  /** Count a wrong code; too many in a row deny the session's pending requests */
+  private codeFailure(
+    sessionKey: string,
+    reason: 'mismatch' | 'decision',
+    correlationId?: string
+  ): CodeCheck {
+    const failures = (this.codeFailures.get(sessionKey) ?? 0) + 1;
+    if (failures < MAX_CODE_FAILURES) {
+      this.codeFailures.set(sessionKey, failures);
+      return { ok: false, reason, correlationId };
+    }
+    this.codeFailures.delete(sessionKey);
+    const denied = this.deny(sessionKey);
+    logger.warn(`ApprovalQueue: too many wrong codes, pending requests denied`, {
+      sessionKey,
+      denied,
+    });
+    return { ok: false, reason, correlationId, denied };
+  }
+
+  /** A 6-digit code not currently live in the session (nor one of `taken`) */
+  private newCode(sessionKey: string, taken: string[] = []): string {
+    const live = new Set(taken);
+    for (const k of this.keysForSession(sessionKey)) {
+      const entry = this.entries.get(k)!;
+      if (entry.code) live.add(entry.code);
+      if (entry.allowCode) live.add(entry.allowCode);
+    }
+    let code: string;
+    do {
+      code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+    } while (live.has(code));
+    return code;
+  }
+
+  /** Remember the codes that can no longer approve, to report replays and expiry */
+  private retire(entry: ApprovalEntry, why: RetiredCode['why']): void {
+    for (const code of [entry.code, entry.allowCode]) {
+      if (!code) continue;
+      this.retired.set(`${entry.sessionKey}::${code}`, {
+        correlationId: entry.correlationId,
+        why,
+        until: Date.now() + RETIRED_CODE_TTL_MS,
+      });
+    }
+  }
 }
 
 /** Singleton instance shared across the plugin. */
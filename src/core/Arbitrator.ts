@@ -2,25 +2,164 @@
  * ClawBands Arbitrator
  * The UI/Prompt Logic for Human-in-the-Loop Decisions
  *
- * Three modes:
+ * An action covered by a grant (see GrantStore) is approved without asking,
+ * unless its rule needs several approvers. Otherwise, four modes:
  *  1. TTY (interactive terminal)  → inquirer prompt
- *  2. Daemon + sessionKey (channel) → approval queue (block-and-retry via messaging)
- *  3. Daemon without sessionKey    → auto-deny (fail-secure)
+ *  2. Daemon + approval.mode "wait" → hold the call for an out-of-band answer
+ *  3. Daemon + sessionKey (channel) → approval queue (block-and-retry via messaging)
+ *  4. Daemon without sessionKey    → auto-deny (fail-secure)
+ *
+ * Modes 2 and 3 time out per the rule's `approvalTimeout`: denied, or
+ * escalated once to other notification sinks first.
  */
 
+import os from 'os';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import { ExecutionContext } from '../types';
+import { ApprovalPath, ApprovalVote, ExecutionContext, SecurityRule } from '../types';
 import { logger } from './Logger';
-import { approvalQueue } from './ApprovalQueue';
+import {
+  ApprovalEntry,
+  approvalQueue,
+  approverName,
+  countApprovals,
+  DEFAULT_TTL_MS,
+  describeQuorum,
+  fingerprintArgs,
+  RequestTimeout,
+} from './ApprovalQueue';
+import { parseSessionKey } from './OverlayMatcher';
+import { redactor } from './Redactor';
+import { getParams } from './RuleMatcher';
+import { formatDuration, parseDuration } from './RateLimiter';
+import { GrantStore } from '../storage/GrantStore';
+import { notifier } from './Notifier';
+import { callbackLinks } from './CallbackLinks';
+
+/** How long a held call waits for an answer when the policy does not say (5 minutes) */
+const DEFAULT_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Outcome of a human judgment
+ */
+export interface Judgement {
+  approved: boolean;
+  /** How the decision was reached */
+  path: ApprovalPath;
+  /** Who decided: local user (TTY) or channel peer; absent if nobody did */
+  userId?: string;
+  /** Approval-queue correlation id (channel mode) */
+  correlationId?: string;
+  /** Grant that covered the action (path 'blanket') */
+  grantId?: string;
+  /** Why the action was not approved (wait-mode answer, timeout, changed arguments) */
+  reason?: string;
+  /** One-time code of the approval request (channel mode) */
+  code?: string;
+  /** One-time code that answers ALLOW instead (channel mode) */
+  allowCode?: string;
+  /** Approvers' answers (multi-party approval) */
+  votes?: ApprovalVote[];
+  /** The request expired once and was escalated */
+  escalated?: boolean;
+}
+
+/** Who approved a multi-party request: "alice, bob" */
+function approvers(votes: ApprovalVote[] = []): string {
+  return votes
+    .filter((v) => v.vote === 'approve')
+    .map((v) => v.approver)
+    .join(', ');
+}
+
+/** Notification sinks (by name) a rule's requests are escalated to */
+function escalationSinks(rule: SecurityRule): string[] {
+  const to = rule.approvalTimeout?.escalateTo;
+  return to === undefined ? [] : Array.isArray(to) ? to : [to];
+}
+
+/** Timing of a rule's approval requests, in milliseconds */
+function requestTimeout(
+  rule: SecurityRule,
+  defaultTtlMs: number
+): RequestTimeout & { ttlMs: number } {
+  const timeout = rule.approvalTimeout ?? {};
+  const ttlMs = parseDuration(timeout.ttl) ?? defaultTtlMs;
+  return {
+    ttlMs,
+    retryWindowMs: parseDuration(timeout.retryWindow),
+    escalateMs:
+      timeout.onTimeout === 'escalate'
+        ? (parseDuration(timeout.escalationTtl) ?? ttlMs)
+        : undefined,
+  };
+}
+
+/**
+ * Why a request ended unanswered: "No answer within 15m (escalated to oncall after 10m)".
+ * `request` is the expired entry, or what a held call knows about it.
+ */
+function describeTimeout(
+  request: Pick<ApprovalEntry, 'quorum' | 'timeout' | 'escalated' | 'votes'>,
+  escalateTo: string[] = []
+): string {
+  const ttlMs = request.timeout!.ttlMs!;
+  const within = formatDuration(ttlMs + (request.escalated ? request.timeout!.escalateMs! : 0));
+  const to = escalateTo.length > 0 ? ` to ${escalateTo.join(', ')}` : '';
+  return (
+    (request.quorum
+      ? `Only ${countApprovals(request)} of ${request.quorum.required} approvals within ${within}`
+      : `No answer within ${within}`) +
+    (request.escalated ? ` (escalated${to} after ${formatDuration(ttlMs)})` : '')
+  );
+}
+
+/**
+ * Why a retry does not match its approval request, naming the params that changed:
+ * "Arguments differ from the approved request #3f2a9c1e (command changed)"
+ */
+function describeMismatch(entry: ApprovalEntry, args: unknown[]): string {
+  const before = getParams(entry.args ?? []);
+  const after = getParams(args);
+  const changed = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(
+    (key) => fingerprintArgs([before[key]]) !== fingerprintArgs([after[key]])
+  );
+  const what = changed.length > 0 ? `${changed.join(', ')} changed` : 'arguments changed';
+  const state = entry.status === 'approved' ? 'approved' : 'pending';
+  return `Arguments differ from the ${state} request #${entry.correlationId.slice(0, 8)} (${what})`;
+}
 
 export class Arbitrator {
   /**
    * Request human judgment on an intercepted action.
    * @param context - The execution context (includes optional sessionKey)
-   * @returns true if approved, false if rejected
+   * @returns the decision and how it was reached
    */
-  async judge(context: ExecutionContext): Promise<boolean> {
+  async judge(context: ExecutionContext): Promise<Judgement> {
+    const { moduleName, methodName, sessionKey, agentId } = context;
+    // A grant is one person's ALLOW: it never stands in for several approvers
+    const grant =
+      !context.rule.approvers &&
+      (await GrantStore.find({
+        moduleName,
+        methodName,
+        params: getParams(context.args),
+        sessionKey,
+        agentId: agentId ?? parseSessionKey(sessionKey).agentId,
+      }));
+    if (grant) {
+      logger.info(`ASK policy → auto-approved (grant ${grant.id}): ${moduleName}.${methodName}()`, {
+        sessionKey,
+      });
+      return {
+        approved: true,
+        path: 'blanket',
+        userId: grant.grantedBy,
+        correlationId: grant.correlationId,
+        grantId: grant.id,
+      };
+    }
+
     // -----------------------------------------------------------------------
     // Mode 1: Interactive TTY — prompt via inquirer (original behavior)
     // -----------------------------------------------------------------------
@@ -29,27 +168,34 @@ export class Arbitrator {
     }
 
     // -----------------------------------------------------------------------
-    // Mode 2: Daemon with session — channel-based approval queue
+    // Mode 2: Daemon, wait mode — hold the call until a human answers
+    // -----------------------------------------------------------------------
+    if (context.approval?.mode === 'wait') {
+      return this.judgeWait(context);
+    }
+
+    // -----------------------------------------------------------------------
+    // Mode 3: Daemon with session — channel-based approval queue
     // -----------------------------------------------------------------------
     if (context.sessionKey) {
       return this.judgeChannel(context);
     }
 
     // -----------------------------------------------------------------------
-    // Mode 3: Daemon without session (cron, webhook, etc.) — auto-deny
+    // Mode 4: Daemon without session (cron, webhook, etc.) — auto-deny
     // -----------------------------------------------------------------------
     logger.info(
       `ASK policy → auto-denied (no TTY, no session): ${context.moduleName}.${context.methodName}()`,
       { args: context.args }
     );
-    return false;
+    return { approved: false, path: 'auto-deny' };
   }
 
   // ---------------------------------------------------------------------------
   // Mode 1 — TTY prompt
   // ---------------------------------------------------------------------------
 
-  private async judgeTTY(context: ExecutionContext): Promise<boolean> {
+  private async judgeTTY(context: ExecutionContext): Promise<Judgement> {
     this.displayBanner();
     this.displayContext(context);
 
@@ -74,59 +220,267 @@ export class Arbitrator {
 
     console.log(''); // Add spacing after decision
 
+    const userId = this.localUser();
+    const quorum = context.rule.approvers;
+    const approver = approverName(context.approval?.identities, 'tty', userId);
+    if (quorum && answer.decision) {
+      // One vote of several: the rest come out-of-band while the call is held
+      const votes: ApprovalVote[] =
+        approver && quorum.from.includes(approver)
+          ? [{ approver, vote: 'approve', via: 'tty', at: new Date().toISOString() }]
+          : [];
+      if (votes.length === 0) {
+        console.log(chalk.yellow(`${userId} is not an approver (${describeQuorum(quorum)})`));
+      }
+      if (countApprovals({ votes }) >= quorum.required) {
+        console.log(chalk.green('✓ Action APPROVED by user\n'));
+        return { approved: true, path: 'quorum', userId: approvers(votes), votes };
+      }
+      console.log(
+        chalk.yellow(
+          `⏳ Needs ${quorum.required - countApprovals({ votes })} more approval(s) ` +
+            `(${describeQuorum(quorum)}): answer with \`clawbands pending\`\n`
+        )
+      );
+      return this.judgeWait(context, votes);
+    }
+
     if (answer.decision) {
       console.log(chalk.green('✓ Action APPROVED by user\n'));
     } else {
       console.log(chalk.red('✗ Action REJECTED by user\n'));
     }
 
-    return answer.decision;
+    return {
+      approved: answer.decision,
+      path: 'tty',
+      userId,
+      votes: quorum && [
+        { approver: approver ?? userId, vote: 'deny', via: 'tty', at: new Date().toISOString() },
+      ],
+    };
   }
 
   // ---------------------------------------------------------------------------
-  // Mode 2 — Channel-based approval (WhatsApp / Telegram / etc.)
+  // Mode 2 — Wait for an out-of-band answer (control socket)
   // ---------------------------------------------------------------------------
 
-  private judgeChannel(context: ExecutionContext): boolean {
+  private async judgeWait(context: ExecutionContext, votes?: ApprovalVote[]): Promise<Judgement> {
     const { sessionKey, moduleName, methodName } = context;
+    const timing = requestTimeout(
+      context.rule,
+      parseDuration(context.approval?.timeout) ?? DEFAULT_WAIT_TIMEOUT_MS
+    );
+    const timeoutMs = timing.ttlMs;
 
-    // Path 0: blanket allow — auto-approved for this session + method (15 min window)
-    if (approvalQueue.hasBlanketAllow(sessionKey!, moduleName, methodName)) {
-      logger.info(`ASK policy → auto-approved (blanket allow): ${moduleName}.${methodName}()`, {
+    logger.warn(
+      `ASK policy → holding ${moduleName}.${methodName}() for up to ${formatDuration(timeoutMs)}; ` +
+        'answer with `clawbands pending`',
+      { sessionKey }
+    );
+    const outcome = await approvalQueue.wait(
+      sessionKey,
+      moduleName,
+      methodName,
+      {
+        args: context.args,
+        risk: context.rule.description,
+        quorum: context.rule.approvers,
+        identities: context.rule.approvers && context.approval?.identities,
+        votes,
+        timeout: timing,
+      },
+      timeoutMs,
+      {
+        onHold: (entry) => this.notifyRequest(context, entry),
+        onEscalate: (entry) => this.notifyRequest(context, entry, true),
+      }
+    );
+
+    if (outcome.answer === 'timeout') {
+      logger.info(`ASK policy → denied (no answer in time): ${moduleName}.${methodName}()`, {
         sessionKey,
       });
-      return true;
+      return {
+        approved: false,
+        path: 'timeout',
+        correlationId: outcome.correlationId,
+        reason: describeTimeout(
+          { ...outcome, quorum: context.rule.approvers, timeout: timing },
+          escalationSinks(context.rule)
+        ),
+        votes: outcome.votes,
+        escalated: outcome.escalated,
+      };
     }
 
+    const approved = outcome.answer === 'approved';
+    const via = outcome.answeredVia ?? 'cli';
+    const where = via === 'callback' ? 'with a callback link' : 'from a terminal';
+    logger.info(
+      `ASK policy → ${approved ? 'approved' : 'denied'} ${where}: ${moduleName}.${methodName}()`,
+      { sessionKey, answeredBy: outcome.answeredBy }
+    );
+    const quorum = approved && context.rule.approvers;
+    return {
+      approved,
+      path: quorum ? 'quorum' : via,
+      userId: quorum ? approvers(outcome.votes) : outcome.answeredBy,
+      correlationId: outcome.correlationId,
+      reason: approved ? undefined : `Denied ${where}`,
+      votes: outcome.votes,
+      escalated: outcome.escalated,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Mode 3 — Channel-based approval (WhatsApp / Telegram / etc.)
+  // ---------------------------------------------------------------------------
+
+  private judgeChannel(context: ExecutionContext): Judgement {
+    const { sessionKey, moduleName, methodName } = context;
+    // The person on the other end of the channel (DM peer or group id)
+    const userId = parseSessionKey(sessionKey).peer;
+    // Approvals are bound to the exact arguments the human saw
+    const fingerprint = fingerprintArgs(context.args);
+    const stale = approvalQueue.mismatch(sessionKey!, moduleName, methodName, fingerprint);
+
     // Path A (primary): explicit approval — clawbands_respond({ decision: "yes" })
     // called approve().
-    if (approvalQueue.consume(sessionKey!, moduleName, methodName)) {
+    const approval = approvalQueue.consume(sessionKey!, moduleName, methodName, fingerprint);
+    if (approval) {
       logger.info(`ASK policy → approved via channel: ${moduleName}.${methodName}()`, {
         sessionKey,
       });
-      return true;
+      if (approval.quorum) {
+        return {
+          approved: true,
+          path: 'quorum',
+          userId: approvers(approval.votes),
+          correlationId: approval.correlationId,
+          votes: approval.votes,
+          escalated: approval.escalated,
+        };
+      }
+      // Answered out-of-band (`clawbands approve`, callback link) or on the channel
+      return approval.answeredBy
+        ? {
+            approved: true,
+            path: approval.answeredVia ?? 'cli',
+            userId: approval.answeredBy,
+            correlationId: approval.correlationId,
+            escalated: approval.escalated,
+          }
+        : {
+            approved: true,
+            path: 'explicit',
+            userId,
+            correlationId: approval.correlationId,
+            escalated: approval.escalated,
+          };
     }
 
     // Path B (fallback): retry-as-approval — used when api.registerTool() is not
     // available (old gateway). The agent retries the blocked tool after the user
-    // said YES, and the retry itself is the approval signal.
-    if (approvalQueue.consumePending(sessionKey!, moduleName, methodName)) {
+    // said YES, and the retry itself is the approval signal. Off when approvals
+    // need a code (the retry would skip it) or several approvers.
+    const codesRequired = context.respondTool && context.approval?.codes !== 'off';
+    const pending =
+      !codesRequired &&
+      !context.rule.approvers &&
+      approvalQueue.consumePending(sessionKey!, moduleName, methodName, fingerprint);
+    if (pending) {
       logger.info(
         `ASK policy → approved via channel (retry-as-approval): ${moduleName}.${methodName}()`,
         { sessionKey }
       );
-      return true;
+      return { approved: true, path: 'retry', userId, correlationId: pending.correlationId };
     }
 
-    // Path C: first encounter — create a pending entry and block.
+    // Path C: first encounter (or a retry with other arguments, which replaces
+    // the stale entry) — create a pending entry and block.
     // The Interceptor will throw an error whose message instructs the agent to
     // ask the user YES/NO. If clawbands_respond is available, the agent calls it;
     // otherwise falls back to retry-as-approval (Path B).
-    approvalQueue.request(sessionKey!, moduleName, methodName);
+    // An earlier request for this call that nobody answered: say so
+    const expired = approvalQueue.takeExpired(sessionKey!, moduleName, methodName);
+    const timing = requestTimeout(context.rule, DEFAULT_TTL_MS);
+    const entry = approvalQueue.request(
+      sessionKey!,
+      moduleName,
+      methodName,
+      {
+        args: context.args,
+        risk: context.rule.description,
+        quorum: context.rule.approvers,
+        identities: context.rule.approvers && context.approval?.identities,
+        timeout: timing,
+      },
+      {
+        onEscalate: (e) => this.notifyRequest(context, e, true),
+        onTimeout: (e) =>
+          context.onTimeout?.({
+            correlationId: e.correlationId,
+            reason: describeTimeout(e, escalationSinks(context.rule)),
+            escalated: e.escalated,
+            votes: e.votes,
+          }),
+      }
+    );
+    const { correlationId, code, allowCode } = entry;
     logger.info(`ASK policy → awaiting channel approval: ${moduleName}.${methodName}()`, {
       sessionKey,
     });
-    return false;
+    this.notifyRequest(context, entry);
+    return {
+      approved: false,
+      path: 'requested',
+      correlationId,
+      reason: stale
+        ? describeMismatch(stale, context.args)
+        : expired &&
+          `Approval request #${expired.correlationId.slice(0, 8)} expired: ` +
+            describeTimeout(expired),
+      code,
+      allowCode,
+      votes: entry.votes,
+    };
+  }
+
+  /**
+   * Ping the configured notification sinks about a new approval request, or
+   * the rule's escalation sinks about one nobody answered in time.
+   */
+  private notifyRequest(context: ExecutionContext, entry: ApprovalEntry, escalated = false): void {
+    const escalateTo = escalationSinks(context.rule);
+    notifier.notify(
+      {
+        event: 'ASK',
+        module: context.moduleName,
+        method: context.methodName,
+        args: context.args,
+        reason: context.rule.description,
+        sessionKey: context.sessionKey,
+        agentId: context.agentId,
+        correlationId: entry.correlationId,
+        code: context.approval?.codes === 'off' ? undefined : entry.code,
+        allowCode: context.approval?.codes === 'off' ? undefined : entry.allowCode,
+        escalated: escalated || undefined,
+      },
+      {
+        links: (approver) => callbackLinks.links(entry, approver),
+        ...(escalated ? { only: escalateTo } : { except: escalateTo }),
+      }
+    );
+  }
+
+  /** Name of the local user answering the TTY prompt */
+  private localUser(): string {
+    try {
+      return os.userInfo().username;
+    } catch {
+      return process.env.USER || 'local';
+    }
   }
 
   // ---------------------------------------------------------------------------
@@ -151,10 +505,17 @@ export class Arbitrator {
       console.log(chalk.bold.cyan('⚠️  Risk:'), chalk.yellow(context.rule.description));
     }
 
+    if (context.rewrites?.length) {
+      console.log(chalk.bold.cyan('✏️  Rewritten:'));
+      context.rewrites.forEach((change) =>
+        console.log(chalk.blue(`  ${redactor.redactString(change)}`))
+      );
+    }
+
     console.log(chalk.bold.cyan('📋 Arguments:'));
 
     try {
-      const argsJson = JSON.stringify(context.args, null, 2);
+      const argsJson = JSON.stringify(redactor.redact(context.args), null, 2);
       console.log(chalk.gray(this.indentJson(argsJson)));
     } catch {
       console.log(chalk.gray('  [Arguments contain non-serializable data]'));
@@ -0,0 +1,138 @@
+/**
+ * ClawBands CallbackLinks
+ * Signed, expiring, single-use approve/deny links for pending approvals
+ *
+ * A token names one approval (correlation id), one answer and an expiry, and
+ * is signed with HMAC-SHA256. The key is random and lives only in the gateway
+ * process, like the approval queue itself: a restart voids every link along
+ * with the requests they answer. Links are only handed out while the callback
+ * server (plugin/callback-server.ts) is listening.
+ *
+ * For a rule with several approvers, a link is made out to one approver and
+ * counts as that approver's vote; only approvers get links.
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { ApprovalEntry } from './ApprovalQueue';
+
+export type CallbackAnswer = 'approve' | 'deny';
+
+/** Why a callback token was refused */
+export type CallbackRejection = 'invalid' | 'expired' | 'replay';
+
+export type CallbackCheck =
+  | {
+      ok: true;
+      correlationId: string;
+      answer: CallbackAnswer;
+      nonce: string;
+      expiresAt: number;
+      /** Approver the link was made out to (multi-party approval) */
+      approver?: string;
+    }
+  | { ok: false; reason: CallbackRejection };
+
+export interface CallbackUrls {
+  approveUrl: string;
+  denyUrl: string;
+}
+
+/** What a token carries (short keys keep links short) */
+interface TokenPayload {
+  id: string;
+  a: CallbackAnswer;
+  exp: number;
+  n: string;
+  /** Approver (multi-party approval) */
+  v?: string;
+}
+
+export class CallbackLinks {
+  private key = randomBytes(32);
+  private baseUrl: string | undefined;
+  /** Nonces of used tokens, until the token would have expired */
+  private used = new Map<string, number>();
+
+  /**
+   * Where links point (the callback server's address); undefined stops handing them out.
+   */
+  setBaseUrl(baseUrl: string | undefined): void {
+    this.baseUrl = baseUrl?.replace(/\/+$/, '');
+  }
+
+  /**
+   * Approve and deny links for a pending entry, valid until the entry expires.
+   * Undefined when the callback server is not running, or when the entry needs
+   * several approvers and `approver` is not one of them.
+   */
+  links(entry: ApprovalEntry, approver?: string): CallbackUrls | undefined {
+    if (!this.baseUrl) return undefined;
+    if (entry.quorum && !(approver && entry.quorum.from.includes(approver))) return undefined;
+    const url = (answer: CallbackAnswer): string =>
+      `${this.baseUrl}/callback/${this.sign({
+        id: entry.correlationId,
+        a: answer,
+        exp: entry.expiresAt,
+        n: randomUUID(),
+        v: entry.quorum && approver,
+      })}`;
+    return { approveUrl: url('approve'), denyUrl: url('deny') };
+  }
+
+  /**
+   * Check a token's signature, expiry and (unless `peek`) use it up.
+   */
+  verify(token: string, peek: boolean = false): CallbackCheck {
+    const [body, signature] = token.split('.');
+    if (!body || !signature || !this.matches(body, signature)) {
+      return { ok: false, reason: 'invalid' };
+    }
+
+    let payload: TokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf-8')) as TokenPayload;
+    } catch {
+      return { ok: false, reason: 'invalid' };
+    }
+    if (Date.now() >= payload.exp) return { ok: false, reason: 'expired' };
+
+    this.prune();
+    if (this.used.has(payload.n)) return { ok: false, reason: 'replay' };
+    if (!peek) this.used.set(payload.n, payload.exp);
+
+    return {
+      ok: true,
+      correlationId: payload.id,
+      answer: payload.a,
+      nonce: payload.n,
+      expiresAt: payload.exp,
+      approver: payload.v,
+    };
+  }
+
+  private sign(payload: TokenPayload): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.mac(body).toString('base64url')}`;
+  }
+
+  private mac(body: string): Buffer {
+    return createHmac('sha256', this.key).update(body).digest();
+  }
+
+  private matches(body: string, signature: string): boolean {
+    const expected = this.mac(body);
+    const given = Buffer.from(signature, 'base64url');
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  /** Forget used tokens that have expired anyway */
+  private prune(): void {
+    const now = Date.now();
+    for (const [nonce, exp] of this.used) {
+      if (now >= exp) this.used.delete(nonce);
+    }
+  }
+}
+
+/** Shared instance: the callback server verifies what the Arbitrator hands out. */
+export const callbackLinks = new CallbackLinks();
@@ -0,0 +1,220 @@
+/**
+ * ClawBands ExfilGuard
+ * Detects credentials and random-looking tokens about to leave the machine
+ *
+ * Network.fetch/request/webhook and Browser.navigate/type/evaluate params are
+ * scanned field by field. A finding escalates the call (ALLOW → ASK by
+ * default) unless the destination is allow-listed. Findings name the field and
+ * the detector, never the value.
+ */
+
+import { Decision, ExfiltrationConfig, RuleAction } from '../types';
+import { BUILTIN_DETECTORS, isSensitiveKey } from './Redactor';
+import { extractUrl, matchHost } from './RuleMatcher';
+
+/** Module methods whose params are inspected */
+const GUARDED_METHODS: Record<string, string[]> = {
+  Network: ['fetch', 'request', 'webhook'],
+  Browser: ['navigate', 'type', 'evaluate'],
+};
+
+/** Detectors for secrets; emails are routinely sent and not checked here */
+const SECRET_DETECTORS = BUILTIN_DETECTORS.filter((detector) => detector.name !== 'email');
+
+const DEFAULT_MIN_ENTROPY = 4.0;
+const DEFAULT_MIN_LENGTH = 24;
+
+/** REWRITE allows the (rewritten) call, so it ranks with ALLOW */
+const SEVERITY: Record<RuleAction, number> = { ALLOW: 0, REWRITE: 0, ASK: 1, DENY: 2 };
+
+export interface ExfilFinding {
+  /** Param path, e.g. "headers.Authorization", "url?token", "body" */
+  field: string;
+  /** Detector name, "credential" (sensitive key) or "high-entropy" */
+  kind: string;
+}
+
+export interface ExfilReport {
+  findings: ExfilFinding[];
+  /** Destination host, when the call has a URL */
+  destination?: string;
+  /** Decision the call is escalated to */
+  action: Decision;
+  /** One-line description, safe to show and log (no values) */
+  summary: string;
+}
+
+/**
+ * Shannon entropy in bits per character.
+ */
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const c of text) counts.set(c, (counts.get(c) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+interface Thresholds {
+  minEntropy: number;
+  minLength: number;
+}
+
+/** Random-looking token: long, mixed letters and digits, high entropy. */
+function hasHighEntropyToken(text: string, { minEntropy, minLength }: Thresholds): boolean {
+  return text
+    .split(/[^A-Za-z0-9+/=_-]+/)
+    .some(
+      (token) =>
+        token.length >= minLength &&
+        /[A-Za-z]/.test(token) &&
+        /\d/.test(token) &&
+        shannonEntropy(token) >= minEntropy
+    );
+}
+
+/** Findings for one string value. */
+function inspectString(
+  field: string,
+  value: string,
+  thresholds: Thresholds,
+  findings: ExfilFinding[]
+): void {
+  const detector = SECRET_DETECTORS.find((d) =>
+    new RegExp(d.pattern.source, d.pattern.flags).test(value)
+  );
+  if (detector) {
+    findings.push({ field, kind: detector.name });
+  } else if (hasHighEntropyToken(value, thresholds)) {
+    findings.push({ field, kind: 'high-entropy' });
+  }
+}
+
+/**
+ * Inspect a URL: the whole URL against the detectors, then the parts that
+ * carry data (credentials, query values, fragment) for entropy.
+ */
+function inspectUrl(
+  field: string,
+  raw: string,
+  thresholds: Thresholds,
+  findings: ExfilFinding[]
+): void {
+  const detector = SECRET_DETECTORS.find((d) =>
+    new RegExp(d.pattern.source, d.pattern.flags).test(raw)
+  );
+  if (detector) {
+    findings.push({ field, kind: detector.name });
+    return;
+  }
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    inspectString(field, raw, thresholds, findings);
+    return;
+  }
+  if (url.password) {
+    findings.push({ field: `${field} (userinfo)`, kind: 'credential' });
+  }
+  for (const [key, value] of url.searchParams) {
+    if (isSensitiveKey(key) && value) {
+      findings.push({ field: `${field}?${key}`, kind: 'credential' });
+    } else {
+      inspectString(`${field}?${key}`, value, thresholds, findings);
+    }
+  }
+  if (url.hash) {
+    inspectString(`${field}#`, url.hash.slice(1), thresholds, findings);
+  }
+}
+
+function inspectValue(
+  field: string,
+  value: unknown,
+  thresholds: Thresholds,
+  findings: ExfilFinding[]
+): void {
+  if (typeof value === 'string') {
+    if (/^https?:\/\//i.test(value)) {
+      inspectUrl(field, value, thresholds, findings);
+    } else {
+      inspectString(field, value, thresholds, findings);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => inspectValue(`${field}[${index}]`, item, thresholds, findings));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      const path = field ? `${field}.${key}` : key;
+      if (
+        isSensitiveKey(key) &&
+        (typeof item === 'string' || typeof item === 'number') &&
+        item !== ''
+      ) {
+        findings.push({ field: path, kind: 'credential' });
+      } else {
+        inspectValue(path, item, thresholds, findings);
+      }
+    }
+  }
+}
+
+/**
+ * Inspect the params of a Network/Browser call for outbound secrets.
+ * @returns the report when the call must be escalated, undefined otherwise
+ */
+export function checkExfiltration(
+  config: ExfiltrationConfig | undefined,
+  moduleName: string,
+  methodName: string,
+  params: Record<string, unknown>
+): ExfilReport | undefined {
+  if (config?.enabled === false) return undefined;
+  if (!GUARDED_METHODS[moduleName]?.includes(methodName)) return undefined;
+
+  let destination: string | undefined;
+  const raw = extractUrl(params);
+  if (raw) {
+    try {
+      destination = new URL(raw).hostname;
+    } catch {
+      // Not a URL; the destination stays unknown
+    }
+  }
+  const allowHosts = ([] as string[]).concat(config?.allowHosts || []);
+  if (destination && allowHosts.some((host) => matchHost(destination!, host))) {
+    return undefined;
+  }
+
+  const findings: ExfilFinding[] = [];
+  inspectValue(
+    '',
+    params,
+    {
+      minEntropy: config?.minEntropy ?? DEFAULT_MIN_ENTROPY,
+      minLength: config?.minLength ?? DEFAULT_MIN_LENGTH,
+    },
+    findings
+  );
+  if (findings.length === 0) return undefined;
+
+  // Field names end the summary (no word after them), so the redactor's
+  // --token/--api-key detector does not mistake the next word for a value
+  const fields = findings.map((finding) => `${finding.kind} in ${finding.field}`).join(', ');
+  return {
+    findings,
+    destination,
+    action: config?.action || 'ASK',
+    summary: `possible secret headed to ${destination || 'the current page'}: ${fields}`,
+  };
+}
+
+/**
+ * The stricter of two decisions.
+ */
+export function escalate(current: RuleAction, to: Decision): RuleAction {
+  return SEVERITY[to] > SEVERITY[current] ? to : current;
+}
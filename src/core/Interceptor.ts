@@ -3,14 +3,72 @@
  * The Brain - Runtime Security Evaluation Engine
  */
 
-import { SecurityPolicy, Decision, SecurityRule, ExecutionContext } from '../types';
+import {
+  SecurityPolicy,
+  RuleAction,
+  ExecutionContext,
+  CallScope,
+  ToolCallMeta,
+  ApprovalVote,
+  ApprovalConfig,
+} from '../types';
 import { DEFAULT_POLICY } from '../config';
 import { Arbitrator } from './Arbitrator';
-import { DecisionLog, DecisionRecord } from '../storage/DecisionLog';
+import {
+  DecisionLog,
+  DecisionRecord,
+  ExfiltrationRecord,
+  RateLimitRecord,
+  RewriteRecord,
+} from '../storage/DecisionLog';
 import { StatsTracker } from '../storage/StatsTracker';
 import { logger } from './Logger';
+import { getParams } from './RuleMatcher';
+import { resolveRule, ResolvedRule } from './RuleResolver';
+import { checkSelfProtection } from './SelfProtection';
+import { redactor } from './Redactor';
+import { checkExfiltration, escalate } from './ExfilGuard';
+import { applyRewrite } from './ParamRewriter';
+import { notifier } from './Notifier';
+import { countApprovals, describeQuorum } from './ApprovalQueue';
+import { describeLimit, formatDuration, rateLimitKey, rateLimiter } from './RateLimiter';
 import chalk from 'chalk';
 
+/**
+ * A tool call being decided, as recorded in the audit trail
+ */
+interface InterceptedCall {
+  moduleName: string;
+  methodName: string;
+  args: unknown[];
+  sessionKey?: string;
+  agentId?: string;
+  toolName?: string;
+  /** Outbound-secret findings that escalated the rule */
+  exfiltration?: ExfiltrationRecord;
+  /** Params rewrite, when the rule changed them */
+  rewrite?: RewriteRecord;
+  /** Budget the call went over */
+  rateLimit?: RateLimitRecord;
+}
+
+/**
+ * Outcome of executeDecision()
+ */
+interface Verdict {
+  allowed: boolean;
+  /** Why an ASK was not approved (final in wait mode; changed arguments in channel mode) */
+  reason?: string;
+  /** One-time code of the approval request (channel mode) */
+  code?: string;
+  /** One-time code that answers ALLOW instead (channel mode) */
+  allowCode?: string;
+  /** Approvers' answers so far (multi-party approval) */
+  votes?: ApprovalVote[];
+  /** The approval request expired with no answer (wait mode) */
+  timedOut?: boolean;
+}
+
 export class Interceptor {
   private policy: SecurityPolicy;
   private arbitrator: Arbitrator;
@@ -22,12 +80,48 @@ export class Interceptor {
    */
   public respondToolAvailable = false;
 
+  /**
+   * Set to true once the control socket listens, so `clawbands pending` can
+   * show approval codes to the human (see codesMode()).
+   */
+  public controlSocketAvailable = false;
+
   constructor(policy?: SecurityPolicy, logEnabled: boolean = true) {
     this.policy = policy || DEFAULT_POLICY;
+    redactor.configure(this.policy.redaction);
+    notifier.configure(this.policy.notifications);
     this.arbitrator = new Arbitrator();
     this.logEnabled = logEnabled;
   }
 
+  /**
+   * Current policy (as last loaded or swapped in).
+   */
+  getPolicy(): SecurityPolicy {
+    return this.policy;
+  }
+
+  /**
+   * Atomically replace the policy. Calls already being evaluated keep the rule
+   * they resolved; every later call sees the new policy.
+   */
+  setPolicy(policy: SecurityPolicy): void {
+    this.policy = policy;
+    redactor.configure(policy.redaction);
+    notifier.configure(policy.notifications);
+  }
+
+  /**
+   * Where approval codes are shown (`approval.codes`). Unset, they stay out of
+   * the agent's sight whenever the human can read them elsewhere: in
+   * `clawbands pending` or in a notification.
+   */
+  codesMode(): NonNullable<ApprovalConfig['codes']> {
+    const { codes } = this.policy.approval ?? {};
+    if (codes) return codes;
+    return this.controlSocketAvailable || notifier.sendsRequests() ? 'out-of-band' : 'challenge';
+  }
+
   /**
    * Evaluate the security policy for a tool call.
    * Used by the OpenClaw hook system — throws if the action is denied.
@@ -35,41 +129,220 @@ export class Interceptor {
    * @param methodName - The method within the module (e.g., 'read', 'bash')
    * @param args - The arguments passed to the tool
    * @param sessionKey - OpenClaw session key (present in daemon/channel mode)
+   * @param meta - Caller details: agent id (selects policy overlays) and tool name
+   * @returns the rewritten params when the rule changed them, undefined otherwise
    */
   async evaluate(
     moduleName: string,
     methodName: string,
     args: unknown[],
-    sessionKey?: string
-  ): Promise<void> {
-    const rule = this.lookupRule(moduleName, methodName);
+    sessionKey?: string,
+    meta: ToolCallMeta = {}
+  ): Promise<Record<string, unknown> | undefined> {
+    // Built-in, ahead of (and not overridable by) the policy
+    const violation = checkSelfProtection(meta.toolName, getParams(args));
+    if (violation) {
+      const reason = `Self-protection: ${violation.target} (${violation.detail})`;
+      if (this.logEnabled) {
+        this.logInterception(moduleName, methodName, 'DENY');
+      }
+      await this.logDecision({
+        timestamp: new Date().toISOString(),
+        module: moduleName,
+        method: methodName,
+        args,
+        toolName: meta.toolName,
+        sessionKey,
+        agentId: meta.agentId,
+        rule: { key: 'self-protection', source: 'self-protection' },
+        decision: 'BLOCKED',
+        reason,
+        decisionTime: 0,
+      });
+      notifier.notify({
+        event: 'DENY',
+        module: moduleName,
+        method: methodName,
+        args,
+        reason,
+        sessionKey,
+        agentId: meta.agentId,
+      });
+      throw new Error(
+        `ClawBands Security Violation: ${moduleName}.${methodName}() was DENIED. ` +
+          `${reason}. ClawBands does not let agents modify its own files, its configuration ` +
+          `or the OpenClaw config. Do NOT retry.`
+      );
+    }
+
+    let resolved = this.lookupRule(moduleName, methodName, getParams(args), {
+      sessionKey,
+      agentId: meta.agentId,
+    });
+    const policyAction = resolved.rule.action;
+
+    // REWRITE (and ASK with a rewrite) go ahead with sanitized params
+    let rewrite: RewriteRecord | undefined;
+    if (resolved.rule.rewrite && (policyAction === 'REWRITE' || policyAction === 'ASK')) {
+      const result = applyRewrite(resolved.rule.rewrite, getParams(args));
+      if (result.problems.length > 0) {
+        // Could not sanitize: ask about the call as it is
+        const description = [resolved.rule.description, 'Rewrite not possible']
+          .filter(Boolean)
+          .join('. ');
+        resolved = {
+          ...resolved,
+          rule: {
+            ...resolved.rule,
+            action: 'ASK',
+            description: `${description} (${result.problems.join('; ')})`,
+          },
+        };
+      } else if (result.changes.length > 0) {
+        rewrite = { changes: result.changes, before: getParams(args), after: result.params };
+      }
+    }
+    const effectiveArgs = rewrite ? [rewrite.after, ...args.slice(1)] : args;
+
+    // Secrets headed off the machine escalate the rule (never relax it)
+    const exfiltration = checkExfiltration(
+      this.policy.exfiltration,
+      moduleName,
+      methodName,
+      getParams(effectiveArgs)
+    );
+    if (exfiltration) {
+      resolved = {
+        ...resolved,
+        rule: {
+          ...resolved.rule,
+          action: escalate(resolved.rule.action, exfiltration.action),
+          description: `Exfiltration guard: ${exfiltration.summary}`,
+        },
+      };
+    }
+
+    // Budget: a call within the limit is counted now (and given back if it
+    // does not run); a call over the limit is escalated
+    const { limit } = resolved.rule;
+    let rateLimit: RateLimitRecord | undefined;
+    let limitHit: { key: string; hit: number } | undefined;
+    if (limit && resolved.rule.action !== 'DENY') {
+      const ruleKey = resolved.overlay ? `[${resolved.overlay}] ${resolved.key}` : resolved.key;
+      const status = await rateLimiter.take(
+        rateLimitKey(ruleKey, limit, { sessionKey, agentId: meta.agentId }),
+        limit
+      );
+      if (status.exceeded) {
+        const resetAt = status.resetAt ?? Date.now();
+        rateLimit = {
+          key: status.key,
+          max: status.max,
+          windowMs: status.windowMs,
+          resetAt: new Date(resetAt).toISOString(),
+        };
+        const detail =
+          `Rate limit exceeded: ${describeLimit(resolved.key, limit)}; ` +
+          `resets in ${formatDuration(resetAt - Date.now())} (${rateLimit.resetAt})`;
+        resolved = {
+          ...resolved,
+          rule: {
+            ...resolved.rule,
+            action: escalate(resolved.rule.action, limit.onExceed || 'DENY'),
+            description: exfiltration ? `${detail}. ${resolved.rule.description}` : detail,
+          },
+        };
+      } else {
+        limitHit = { key: status.key, hit: status.hit! };
+      }
+    }
+    const { rule } = resolved;
 
     if (this.logEnabled) {
       this.logInterception(moduleName, methodName, rule.action);
     }
 
-    const allowed = await this.executeDecision(rule, moduleName, methodName, args, sessionKey);
+    const { allowed, reason, code, allowCode, votes, timedOut } = await this.executeDecision(
+      resolved,
+      {
+        moduleName,
+        methodName,
+        args,
+        sessionKey,
+        agentId: meta.agentId,
+        toolName: meta.toolName,
+        exfiltration: exfiltration && {
+          findings: exfiltration.findings,
+          destination: exfiltration.destination,
+          policyAction,
+        },
+        rewrite,
+        rateLimit,
+      }
+    );
+
+    if (!allowed && limitHit) {
+      rateLimiter.release(limitHit.key, limitHit.hit);
+    }
 
     if (!allowed) {
       // In channel mode (no TTY + sessionKey), provide a message the agent can
       // relay to the user on WhatsApp/Telegram so they can reply YES to approve.
-      const isChannelMode = !process.stdin.isTTY && sessionKey;
-      const detail = rule.description || 'No description provided.';
+      // A DENY (policy, rate limit, exfiltration guard) is final: no approval offered.
+      // In wait mode the human has already answered (or the wait timed out).
+      const isChannelMode =
+        !process.stdin.isTTY &&
+        sessionKey &&
+        rule.action === 'ASK' &&
+        this.policy.approval?.mode !== 'wait';
+      const detail = reason || rule.description || 'No description provided.';
 
       if (isChannelMode) {
+        const codes = this.codesMode();
+        const codeArg = codes === 'off' ? '' : ', code: "<code>"';
         const instructions = this.respondToolAvailable
-          ? `Ask the user: YES, NO, or ALLOW (auto-approve for 15 min).\n` +
-            `- YES → clawbands_respond({ decision: "yes" }), then retry.\n` +
+          ? `Ask the user: YES, NO, or ALLOW (auto-approve for a while, 15 min unless they say).\n` +
+            (codes === 'challenge'
+              ? `Give them the approval code ${code} for YES` +
+                (allowCode ? ` and ${allowCode} for ALLOW` : '') +
+                `; they must send back the code of their answer.\n`
+              : codes === 'out-of-band'
+                ? `To approve they must send the approval code shown to them outside this chat ` +
+                  `(\`clawbands pending\` or a notification); YES and ALLOW have different codes.\n`
+                : '') +
+            `- YES → clawbands_respond({ decision: "yes"${codeArg} }), then retry.\n` +
             `- NO → clawbands_respond({ decision: "no" }). Do NOT retry.\n` +
-            `- ALLOW → clawbands_respond({ decision: "allow" }), then retry. Auto-approves this action for 15 minutes.`
+            `- ALLOW → clawbands_respond({ decision: "allow", duration: "15m"${codeArg} }), then retry. ` +
+            `Use the duration the user gave ("1h", "session", ...).` +
+            (codeArg
+              ? `\n<code> is the code the user sent with that answer, never one you make up.`
+              : '')
           : `Ask the user YES or NO.\n` +
             `- If YES: call ${moduleName}.${methodName}() again exactly as before.\n` +
             `- If NO: do NOT call the tool again. Tell the user the action was cancelled.`;
 
         throw new Error(
           `[ClawBands:APPROVAL_REQUIRED] ${moduleName}.${methodName}() is blocked pending human approval. ` +
-            `Risk: ${detail}\n` +
-            instructions
+            (reason ? `${reason}: ask the user again.\n` : '') +
+            `Risk: ${rule.description || 'No description provided.'}\n` +
+            (rewrite ? `Rewritten: ${rewrite.changes.join('; ')}\n` : '') +
+            (rule.approvers
+              ? `Needs ${describeQuorum(rule.approvers)} to approve` +
+                (countApprovals({ votes }) > 0
+                  ? ` (approved so far: ${votes!.map((v) => v.approver).join(', ')})`
+                  : '') +
+                `; ALLOW does not apply.\n`
+              : '') +
+            instructions +
+            `\nThe user can also answer from a terminal with \`clawbands pending\`; retry once they have.`
+        );
+      }
+
+      if (timedOut) {
+        throw new Error(
+          `[ClawBands:APPROVAL_EXPIRED] ${moduleName}.${methodName}() did not run: the approval ` +
+            `request expired. ${detail}. Nobody approved or denied it; tell the user, and retry ` +
+            `only if they still want it.`
         );
       }
 
@@ -77,88 +350,156 @@ export class Interceptor {
         `ClawBands Security Violation: ${moduleName}.${methodName}() was DENIED. ${detail}`
       );
     }
+
+    return rewrite?.after;
   }
 
   /**
-   * Lookup the security rule for a module/method combination
+   * Lookup the security rule for a module/method combination.
+   * See resolveRule() for the resolution chain and overlay layering.
    */
-  private lookupRule(moduleName: string, methodName: string): SecurityRule {
-    const moduleRules = this.policy.modules[moduleName];
-
-    if (moduleRules && moduleRules[methodName]) {
-      return moduleRules[methodName];
-    }
-
-    // Fallback to default action
-    return {
-      action: this.policy.defaultAction,
-      description: `No specific rule defined for ${moduleName}.${methodName}`,
-    };
+  private lookupRule(
+    moduleName: string,
+    methodName: string,
+    params: Record<string, unknown>,
+    scope: CallScope
+  ): ResolvedRule {
+    return resolveRule(this.policy, moduleName, methodName, params, scope);
   }
 
   /**
    * Execute the security decision based on the rule
-   * @returns true if approved, false if denied
+   * @returns whether the call may run (and why not, if the human said so)
    */
-  private async executeDecision(
-    rule: SecurityRule,
-    moduleName: string,
-    methodName: string,
-    args: unknown[],
-    sessionKey?: string
-  ): Promise<boolean> {
+  private async executeDecision(resolved: ResolvedRule, call: InterceptedCall): Promise<Verdict> {
+    const { rule } = resolved;
     const startTime = Date.now();
 
+    // Fields shared by every record of this call
+    const base = {
+      module: call.moduleName,
+      method: call.methodName,
+      args: call.args,
+      toolName: call.toolName,
+      sessionKey: call.sessionKey,
+      agentId: call.agentId,
+      rule: {
+        key: resolved.key,
+        source: resolved.source,
+        overlay: resolved.overlay,
+        conditionIndex: resolved.conditionIndex,
+      },
+      exfiltration: call.exfiltration,
+      rewrite: call.rewrite,
+      rateLimit: call.rateLimit,
+    };
+
     switch (rule.action) {
       case 'ALLOW': {
         const decisionTime = Date.now() - startTime;
         await this.logDecision({
           timestamp: new Date().toISOString(),
-          module: moduleName,
-          method: methodName,
-          args,
+          ...base,
           decision: 'ALLOWED',
           decisionTime,
         });
-        return true;
+        return { allowed: true };
+      }
+
+      case 'REWRITE': {
+        const decisionTime = Date.now() - startTime;
+        await this.logDecision({
+          timestamp: new Date().toISOString(),
+          ...base,
+          decision: 'ALLOWED',
+          reason: call.rewrite ? 'Policy: REWRITE' : 'Policy: REWRITE (nothing to change)',
+          decisionTime,
+        });
+        return { allowed: true };
       }
 
       case 'DENY': {
         const decisionTime = Date.now() - startTime;
+        const reason = call.exfiltration || call.rateLimit ? rule.description : 'Policy: DENY';
         await this.logDecision({
           timestamp: new Date().toISOString(),
-          module: moduleName,
-          method: methodName,
-          args,
+          ...base,
           decision: 'BLOCKED',
-          reason: 'Policy: DENY',
+          reason,
           decisionTime,
         });
-        return false;
+        notifier.notify({
+          event: 'DENY',
+          module: call.moduleName,
+          method: call.methodName,
+          args: call.args,
+          reason: rule.description || reason,
+          sessionKey: call.sessionKey,
+          agentId: call.agentId,
+        });
+        return { allowed: false };
       }
 
       case 'ASK': {
         const context: ExecutionContext = {
-          moduleName,
-          methodName,
-          args,
+          moduleName: call.moduleName,
+          methodName: call.methodName,
+          // The prompt shows the call as it will run
+          args: call.rewrite ? [call.rewrite.after, ...call.args.slice(1)] : call.args,
           rule,
-          sessionKey,
+          rewrites: call.rewrite?.changes,
+          sessionKey: call.sessionKey,
+          agentId: call.agentId,
+          approval: this.policy.approval,
+          respondTool: this.respondToolAvailable,
+          // A channel request nobody answered: recorded when it expires
+          onTimeout: (request) => {
+            void this.logDecision({
+              timestamp: new Date().toISOString(),
+              ...base,
+              decision: 'TIMED_OUT',
+              decisionTime: Date.now() - startTime,
+              reason: request.reason,
+              approvalPath: 'timeout',
+              correlationId: request.correlationId,
+              votes: request.votes,
+              escalated: request.escalated,
+            });
+          },
         };
-        const approved = await this.arbitrator.judge(context);
+        const judgement = await this.arbitrator.judge(context);
         const decisionTime = Date.now() - startTime;
+        const timedOut = judgement.path === 'timeout';
 
         await this.logDecision({
           timestamp: new Date().toISOString(),
-          module: moduleName,
-          method: methodName,
-          args,
-          decision: approved ? 'APPROVED' : 'REJECTED',
-          userId: 'human',
+          ...base,
+          decision: judgement.approved ? 'APPROVED' : timedOut ? 'TIMED_OUT' : 'REJECTED',
+          userId: judgement.userId,
           decisionTime,
+          reason:
+            judgement.reason ??
+            (judgement.path === 'requested'
+              ? 'Awaiting approval on channel'
+              : judgement.path === 'auto-deny'
+                ? 'No TTY and no session: auto-denied'
+                : (call.exfiltration || call.rateLimit) && rule.description),
+          approvalPath: judgement.path,
+          autoDenied: judgement.path === 'auto-deny' || undefined,
+          correlationId: judgement.correlationId,
+          grantId: judgement.grantId,
+          votes: judgement.votes,
+          escalated: judgement.escalated,
         });
 
-        return approved;
+        return {
+          allowed: judgement.approved,
+          reason: judgement.reason,
+          code: judgement.code,
+          allowCode: judgement.allowCode,
+          votes: judgement.votes,
+          timedOut,
+        };
       }
 
       default:
@@ -168,11 +509,16 @@ export class Interceptor {
   }
 
   /**
-   * Log a decision to the audit trail and update stats
+   * Log a decision to the audit trail (secrets redacted) and update stats
    */
   private async logDecision(record: DecisionRecord): Promise<void> {
     try {
-      await DecisionLog.append(record);
+      await DecisionLog.append({
+        ...record,
+        args: redactor.redact(record.args),
+        reason: record.reason && redactor.redactString(record.reason),
+        rewrite: record.rewrite && redactor.redact(record.rewrite),
+      });
       await StatsTracker.increment(record.decision, record.decisionTime);
     } catch (error) {
       // Don't fail the operation if logging fails
@@ -183,13 +529,15 @@ export class Interceptor {
   /**
    * Log an interception event
    */
-  private logInterception(moduleName: string, methodName: string, action: Decision): void {
+  private logInterception(moduleName: string, methodName: string, action: RuleAction): void {
     const coloredAction =
       action === 'ALLOW'
         ? chalk.green(action)
         : action === 'DENY'
           ? chalk.red(action)
-          : chalk.yellow(action);
+          : action === 'REWRITE'
+            ? chalk.blue(action)
+            : chalk.yellow(action);
 
     logger.info(`${chalk.cyan('ClawBands:')} ${moduleName}.${methodName}() → ${coloredAction}`);
   }
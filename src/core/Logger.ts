@@ -7,6 +7,7 @@ import winston from 'winston';
 import path from 'path';
 import { existsSync, mkdirSync } from 'fs';
 import os from 'os';
+import { redactor } from './Redactor';
 
 // Determine ClawBands home directory
 const OPENCLAW_HOME = process.env.OPENCLAW_HOME || path.join(os.homedir(), '.openclaw');
@@ -19,11 +20,27 @@ if (!existsSync(CLAWBANDS_HOME)) {
 
 const LOG_FILE = path.join(CLAWBANDS_HOME, 'clawbands.log');
 
+/** Fields winston manages itself */
+const LOG_FIELDS = ['level', 'timestamp', 'service'];
+
+/**
+ * Redact secrets from the message and metadata of every log entry
+ */
+const redactFormat = winston.format((info) => {
+  for (const key of Object.keys(info)) {
+    if (!LOG_FIELDS.includes(key)) {
+      info[key] = redactor.redact(info[key]);
+    }
+  }
+  return info;
+});
+
 export const logger = winston.createLogger({
   level: process.env.LOG_LEVEL || 'info',
   format: winston.format.combine(
     winston.format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
     winston.format.errors({ stack: true }),
+    redactFormat(),
     winston.format.json()
   ),
   defaultMeta: { service: 'clawbands' },
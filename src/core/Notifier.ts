@@ -0,0 +1,291 @@
+/**
+ * ClawBands Notifier
+ * Pings a human when an approval is requested or a call is denied
+ *
+ * Sinks (policy `notifications.sinks`): a JSON webhook, a Slack incoming
+ * webhook, a desktop notification, or a local command. Each sink can be
+ * limited to some decisions (`on`) and modules (`modules`). Deliveries run in
+ * the background and never hold up or fail the tool call: a failed attempt is
+ * retried with exponential backoff, then logged.
+ *
+ * A sink may name the `approver` it reaches; for a rule with several approvers
+ * only such sinks get approve/deny links, each made out to its approver.
+ * Sinks a rule escalates to (`approvalTimeout.escalateTo`) only hear about its
+ * requests once nobody else answered in time.
+ */
+
+import { execFile, spawn } from 'child_process';
+import { NotificationConfig, NotificationSink, NotifyOn } from '../types';
+import { CallbackUrls } from './CallbackLinks';
+import { logger } from './Logger';
+import { parseDuration } from './RateLimiter';
+import { redactor } from './Redactor';
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_TIMEOUT_MS = 5000;
+/** Wait before the first retry; doubled for each one after */
+const BACKOFF_BASE_MS = 1000;
+/** Approval requests remembered to avoid pinging twice for the same one */
+const MAX_REMEMBERED = 1000;
+
+/**
+ * What happened, as sent to the sinks (arguments and reason redacted)
+ */
+export interface NotificationEvent {
+  event: NotifyOn;
+  timestamp: string;
+  module: string;
+  method: string;
+  args?: unknown;
+  /** Rule description or why the call was blocked */
+  reason?: string;
+  sessionKey?: string;
+  agentId?: string;
+  /** Approval id, for `clawbands approve|deny <id>` (ASK) */
+  correlationId?: string;
+  /** One-time approval code (ASK, channel mode) */
+  code?: string;
+  /** One-time code that answers ALLOW instead (ASK, channel mode) */
+  allowCode?: string;
+  /** Signed approve/deny links (ASK, when the callback server runs) */
+  approveUrl?: string;
+  denyUrl?: string;
+  /** Nobody answered in time: sent to the rule's escalation sinks (ASK) */
+  escalated?: boolean;
+}
+
+/**
+ * Which sinks get an event, and the links they carry
+ */
+export interface NotifyOptions {
+  /** Approve/deny links for a sink's approver */
+  links?: (approver?: string) => CallbackUrls | undefined;
+  /** Only these sinks (by name), whatever their `on` and `modules` */
+  only?: string[];
+  /** Not these sinks (by name) */
+  except?: string[];
+}
+
+function toList<T>(value: T | T[] | undefined): T[] | undefined {
+  return value === undefined ? undefined : Array.isArray(value) ? value : [value];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * One-line summary: "Approval needed: Shell.bash (code 482913, ALLOW code 771204)"
+ */
+export function describeEvent(event: NotificationEvent): string {
+  const action = `${event.module}.${event.method}`;
+  if (event.event === 'DENY') return `Blocked: ${action}`;
+  return (
+    `${event.escalated ? 'Escalated, approval still needed' : 'Approval needed'}: ${action}` +
+    (event.code
+      ? ` (code ${event.code}${event.allowCode ? `, ALLOW code ${event.allowCode}` : ''})`
+      : '')
+  );
+}
+
+/** Body shared by the Slack and desktop messages */
+function describeDetails(event: NotificationEvent): string[] {
+  const lines: string[] = [];
+  if (event.reason) lines.push(event.reason);
+  if (event.args !== undefined) lines.push(JSON.stringify(event.args));
+  if (event.sessionKey) lines.push(`Session: ${event.sessionKey}`);
+  if (event.event === 'ASK' && event.correlationId) {
+    lines.push(`Answer: clawbands approve|deny ${event.correlationId.slice(0, 8)}`);
+  }
+  if (event.approveUrl && event.denyUrl) {
+    lines.push(`Approve: ${event.approveUrl}`, `Deny: ${event.denyUrl}`);
+  }
+  return lines;
+}
+
+export class Notifier {
+  private enabled = true;
+  private sinks: NotificationSink[] = [];
+  private retries = DEFAULT_RETRIES;
+  private timeoutMs = DEFAULT_TIMEOUT_MS;
+  private notified = new Set<string>();
+
+  constructor(config?: NotificationConfig) {
+    this.configure(config);
+  }
+
+  /**
+   * Apply the policy's notification settings (replaces the previous ones).
+   */
+  configure(config: NotificationConfig = {}): void {
+    this.enabled = config.enabled !== false;
+    this.sinks = config.sinks ?? [];
+    this.retries = config.retries ?? DEFAULT_RETRIES;
+    this.timeoutMs = parseDuration(config.timeout) ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Configured sinks, whether or not notifications are enabled.
+   */
+  getSinks(): NotificationSink[] {
+    return this.sinks;
+  }
+
+  /**
+   * Whether approval requests reach anyone: notifications are on and a sink takes ASK events.
+   */
+  sendsRequests(): boolean {
+    return this.enabled && this.sinks.some((sink) => toList(sink.on)?.includes('ASK') ?? true);
+  }
+
+  /**
+   * Send an event to every sink that wants it, in the background.
+   * An approval request is sent once (and once more if escalated), however
+   * often the agent retries.
+   */
+  notify(event: Omit<NotificationEvent, 'timestamp'>, options: NotifyOptions = {}): void {
+    if (!this.enabled || this.sinks.length === 0) return;
+    if (event.correlationId) {
+      const key = `${event.event}:${event.correlationId}${event.escalated ? ':escalated' : ''}`;
+      if (this.notified.has(key)) return;
+      if (this.notified.size >= MAX_REMEMBERED) this.notified.clear();
+      this.notified.add(key);
+    }
+
+    const payload: NotificationEvent = {
+      ...event,
+      timestamp: new Date().toISOString(),
+      args: event.args === undefined ? undefined : redactor.redact(event.args),
+      reason: event.reason && redactor.redactString(event.reason),
+    };
+    const action = `${event.module}.${event.method}`;
+    const { links, only, except } = options;
+    const missing = (only ?? []).filter((name) => !this.sinks.some((s) => this.label(s) === name));
+    if (missing.length > 0) {
+      logger.warn(`[notifier] No sink named ${missing.join(', ')}`, { action });
+    }
+    for (const sink of this.sinks) {
+      const on = toList(sink.on);
+      const modules = toList(sink.modules);
+      if (only) {
+        if (!only.includes(this.label(sink))) continue;
+      } else {
+        if (except?.includes(this.label(sink))) continue;
+        if (on && !on.includes(event.event)) continue;
+        if (modules && !modules.includes(event.module) && !modules.includes(action)) continue;
+      }
+
+      this.send(sink, { ...payload, ...links?.(sink.approver) }).catch((error: unknown) => {
+        logger.warn(`[notifier] Could not notify ${this.label(sink)}`, {
+          event: event.event,
+          action,
+          error: error instanceof Error ? error.message : error,
+        });
+      });
+    }
+  }
+
+  /**
+   * Deliver an event to one sink, retrying with backoff.
+   * Rejects with the last error once every attempt failed.
+   */
+  async send(sink: NotificationSink, event: NotificationEvent): Promise<void> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.deliver(sink, event);
+        return;
+      } catch (error) {
+        if (attempt >= this.retries) throw error;
+        logger.debug(`[notifier] ${this.label(sink)} failed, retrying`, { attempt, error });
+        await sleep(BACKOFF_BASE_MS * 2 ** attempt);
+      }
+    }
+  }
+
+  /** Sink name for logs */
+  label(sink: NotificationSink): string {
+    return sink.name || sink.type;
+  }
+
+  private async deliver(sink: NotificationSink, event: NotificationEvent): Promise<void> {
+    switch (sink.type) {
+      case 'webhook':
+        return this.post(sink, event);
+      case 'slack':
+        return this.post(sink, {
+          text: [`*ClawBands* ${describeEvent(event)}`, ...describeDetails(event)].join('\n'),
+        });
+      case 'desktop':
+        return this.desktop(event);
+      case 'command':
+        return this.command(sink, event);
+      default:
+        throw new Error(`Unknown sink type: ${String(sink.type)}`);
+    }
+  }
+
+  private async post(sink: NotificationSink, body: unknown): Promise<void> {
+    if (!sink.url) throw new Error('No url');
+    const response = await fetch(sink.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...sink.headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    }).catch((error: Error & { cause?: Error }) => {
+      // "fetch failed" says nothing; the cause names the network error
+      throw error.cause ?? error;
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+  }
+
+  private desktop(event: NotificationEvent): Promise<void> {
+    const title = `ClawBands: ${describeEvent(event)}`;
+    const body = describeDetails(event).join('\n');
+    const [file, args] =
+      process.platform === 'darwin'
+        ? [
+            'osascript',
+            [
+              '-e',
+              `display notification ${JSON.stringify(body)} with title ${JSON.stringify(title)}`,
+            ],
+          ]
+        : ['notify-send', ['--app-name=ClawBands', title, body]];
+
+    return new Promise((resolve, reject) => {
+      execFile(file, args, { timeout: this.timeoutMs }, (error) =>
+        error ? reject(error) : resolve()
+      );
+    });
+  }
+
+  private command(sink: NotificationSink, event: NotificationEvent): Promise<void> {
+    if (!sink.command) throw new Error('No command');
+    const command = sink.command;
+
+    return new Promise((resolve, reject) => {
+      const child = spawn('/bin/sh', ['-c', command], {
+        stdio: ['pipe', 'ignore', 'ignore'],
+        env: { ...process.env, CLAWBANDS_EVENT: event.event },
+      });
+      const timer = setTimeout(() => child.kill(), this.timeoutMs);
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        if (code === 0) resolve();
+        else reject(new Error(signal ? `Killed by ${signal}` : `Exited with code ${code}`));
+      });
+      // The command may not read its input
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(`${JSON.stringify(event)}\n`);
+    });
+  }
+}
+
+/** Shared instance, configured from the policy by the Interceptor. */
+export const notifier = new Notifier();
@@ -0,0 +1,80 @@
+/**
+ * ClawBands OverlayMatcher
+ * Selects the policy overlays that apply to an agent / session
+ */
+
+import { CallScope, PolicyOverlay, SecurityPolicy } from '../types';
+
+/**
+ * Parts of an OpenClaw session key ("agent:<agentId>:<channel>:<chatType>:<peer>")
+ */
+export interface SessionKeyParts {
+  agentId?: string;
+  channel?: string;
+  chatType?: string;
+  peer?: string;
+}
+
+/**
+ * Split a session key into its parts. Keys in another format yield no parts,
+ * so channel/chatType/peer selectors never match them.
+ */
+export function parseSessionKey(sessionKey: string | undefined): SessionKeyParts {
+  if (!sessionKey) return {};
+  const parts = sessionKey.split(':');
+  if (parts[0] !== 'agent' || parts.length < 2) return {};
+  return {
+    agentId: parts[1] || undefined,
+    channel: parts[2] || undefined,
+    chatType: parts[3] || undefined,
+    // Peers may contain ':' themselves (e.g. group ids)
+    peer: parts.length > 4 ? parts.slice(4).join(':') : undefined,
+  };
+}
+
+/** Match a value against a pattern where `*` matches any run of characters. */
+function matchWildcard(value: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(value);
+}
+
+function matchSelector(
+  value: string | undefined,
+  selector: string | string[] | undefined
+): boolean {
+  if (selector === undefined) return true;
+  if (value === undefined) return false;
+  const patterns = Array.isArray(selector) ? selector : [selector];
+  return patterns.some((pattern) => matchWildcard(value, pattern));
+}
+
+/**
+ * Check whether every selector of the overlay matches the call scope.
+ */
+export function matchesOverlay(overlay: PolicyOverlay, scope: CallScope): boolean {
+  const parts = parseSessionKey(scope.sessionKey);
+  return (
+    matchSelector(scope.agentId ?? parts.agentId, overlay.agentId) &&
+    matchSelector(scope.sessionKey, overlay.session) &&
+    matchSelector(parts.channel, overlay.channel) &&
+    matchSelector(parts.chatType, overlay.chatType) &&
+    matchSelector(parts.peer, overlay.peer)
+  );
+}
+
+/**
+ * Overlays of the policy that apply to the scope, in policy order.
+ */
+export function matchingOverlays(policy: SecurityPolicy, scope: CallScope): PolicyOverlay[] {
+  return (policy.overlays || []).filter((overlay) => matchesOverlay(overlay, scope));
+}
+
+/**
+ * Display label for an overlay (its name, or its position in the policy).
+ */
+export function overlayLabel(policy: SecurityPolicy, overlay: PolicyOverlay): string {
+  return overlay.name || `overlays[${(policy.overlays || []).indexOf(overlay)}]`;
+}
@@ -0,0 +1,128 @@
+/**
+ * ClawBands ParamRewriter
+ * Applies a rule's declarative transforms to tool params
+ *
+ * Used for REWRITE rules (sanitize, then allow) and ASK rules with a
+ * `rewrite` (sanitize, then ask about the sanitized call). A transform that
+ * cannot be applied safely is reported as a problem instead of guessed at.
+ */
+
+import path from 'path';
+import { ParamTransform } from '../types';
+import { analyzeShellCommand } from './ShellAnalyzer';
+import { commandParamKey, normalizePath, pathParamKey } from './RuleMatcher';
+
+export interface RewriteResult {
+  /** Rewritten copy of the params (the input is not modified) */
+  params: Record<string, unknown>;
+  /** What changed, one line each, e.g. "command: added --dry-run" */
+  changes: string[];
+  /** Transforms that could not be applied */
+  problems: string[];
+}
+
+type Params = Record<string, unknown>;
+
+/** Parent object and last key of a dot path, if the parent exists. */
+function locate(params: Params, dotPath: string): { parent: Params; key: string } | undefined {
+  const keys = dotPath.split('.');
+  const key = keys.pop()!;
+  let parent: unknown = params;
+  for (const part of keys) {
+    if (!parent || typeof parent !== 'object') return undefined;
+    parent = (parent as Params)[part];
+  }
+  return parent && typeof parent === 'object' ? { parent: parent as Params, key } : undefined;
+}
+
+function appendFlag(params: Params, flag: string, result: RewriteResult): void {
+  const key = commandParamKey(params);
+  if (!key) return;
+  const command = params[key] as string;
+
+  const analysis = analyzeShellCommand(command);
+  // Appending to `a && b`, a comment or a multi-line script would not reach
+  // the intended command
+  if (analysis.parseError || analysis.segments.length !== 1 || /(^|\s)#|\n/.test(command)) {
+    result.problems.push(`${key}: cannot add ${flag} to a compound command`);
+    return;
+  }
+  const name = flag.split('=')[0];
+  const present = analysis.segments[0].words.some(
+    (word) => word === flag || word === name || word.startsWith(`${name}=`)
+  );
+  if (present) return;
+
+  params[key] = `${command.trimEnd()} ${flag}`;
+  result.changes.push(`${key}: added ${flag}`);
+}
+
+function clamp(params: Params, transform: ParamTransform, result: RewriteResult): void {
+  const dotPath = transform.clamp!;
+  const location = locate(params, dotPath);
+  const value = location?.parent[location.key];
+  if (!location || value === undefined) return;
+
+  const number = typeof value === 'number' ? value : Number(value);
+  if (typeof value === 'boolean' || value === '' || !Number.isFinite(number)) {
+    result.problems.push(`${dotPath}: expected a number`);
+    return;
+  }
+  let clamped = number;
+  if (transform.max !== undefined) clamped = Math.min(clamped, transform.max);
+  if (transform.min !== undefined) clamped = Math.max(clamped, transform.min);
+  if (clamped === number) return;
+
+  location.parent[location.key] = clamped;
+  result.changes.push(`${dotPath}: ${value} → ${clamped}`);
+}
+
+function stripHeaders(params: Params, names: string[], result: RewriteResult): void {
+  const headers = params.headers;
+  if (!headers || typeof headers !== 'object' || Array.isArray(headers)) return;
+
+  const strip = names.map((name) => name.toLowerCase());
+  for (const header of Object.keys(headers)) {
+    if (strip.includes(header.toLowerCase())) {
+      delete (headers as Params)[header];
+      result.changes.push(`headers: removed ${header}`);
+    }
+  }
+}
+
+function sandboxPath(params: Params, dir: string, result: RewriteResult): void {
+  const key = pathParamKey(params);
+  if (!key) return;
+
+  const sandbox = normalizePath(dir);
+  const target = normalizePath(params[key] as string);
+  if (target === sandbox || target.startsWith(sandbox + path.sep)) return;
+
+  const rewritten = path.join(sandbox, target);
+  params[key] = rewritten;
+  result.changes.push(`${key}: ${target} → ${rewritten}`);
+}
+
+/**
+ * Apply transforms, in order, to a copy of the params.
+ */
+export function applyRewrite(transforms: ParamTransform[], params: Params): RewriteResult {
+  const result: RewriteResult = {
+    params: JSON.parse(JSON.stringify(params)) as Params,
+    changes: [],
+    problems: [],
+  };
+
+  for (const transform of transforms) {
+    if (transform.appendFlag !== undefined) {
+      appendFlag(result.params, transform.appendFlag, result);
+    } else if (transform.clamp !== undefined) {
+      clamp(result.params, transform, result);
+    } else if (transform.stripHeaders !== undefined) {
+      stripHeaders(result.params, ([] as string[]).concat(transform.stripHeaders), result);
+    } else if (transform.sandboxPath !== undefined) {
+      sandboxPath(result.params, transform.sandboxPath, result);
+    }
+  }
+  return result;
+}
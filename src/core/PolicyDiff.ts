@@ -0,0 +1,117 @@
+/**
+ * ClawBands PolicyDiff
+ * Rule-by-rule comparison of two security policies
+ */
+
+import { SecurityPolicy } from '../types';
+
+export interface PolicyChange {
+  kind: 'added' | 'removed' | 'changed';
+  /** Policy key, e.g. "defaultAction", "Shell.bash", "moduleDefaults.Network" */
+  key: string;
+  before?: unknown;
+  after?: unknown;
+  /** Keys that changed within a section (auditChanges(), in place of before/after) */
+  fields?: string[];
+}
+
+/** Persisted metadata that is not part of the policy semantics. */
+const METADATA_KEYS = ['version', 'createdAt', 'updatedAt'];
+
+/** Top-level keys that are rules themselves; other sections may hold secrets (sink URLs, headers) */
+const RULE_KEYS = ['defaultAction'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Keys of two objects whose values differ (none when either is not an object) */
+function changedFields(before: unknown, after: unknown): string[] {
+  const a = isPlainObject(before) ? before : {};
+  const b = isPlainObject(after) ? after : {};
+  if (!isPlainObject(before) && !isPlainObject(after)) return [];
+  return Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).filter(
+    (key) => JSON.stringify(a[key]) !== JSON.stringify(b[key])
+  );
+}
+
+/**
+ * Flatten a policy into comparable entries keyed by their policy path.
+ * Rules are compared one by one; other sections (defaultAction, tools, ...)
+ * as a whole. Metadata (version, timestamps) is ignored.
+ */
+function flatten(policy: SecurityPolicy): Map<string, unknown> {
+  const entries = new Map<string, unknown>();
+
+  for (const [key, value] of Object.entries(policy)) {
+    if (key === 'modules' || key === 'moduleDefaults' || METADATA_KEYS.includes(key)) continue;
+    if (value !== undefined) entries.set(key, value);
+  }
+
+  for (const [moduleName, rules] of Object.entries(policy.modules || {})) {
+    for (const [methodName, rule] of Object.entries(rules || {})) {
+      entries.set(`${moduleName}.${methodName}`, rule);
+    }
+  }
+
+  for (const [moduleName, action] of Object.entries(policy.moduleDefaults || {})) {
+    entries.set(`moduleDefaults.${moduleName}`, action);
+  }
+
+  return entries;
+}
+
+/**
+ * List the changes needed to go from `before` to `after`.
+ */
+export function diffPolicies(before: SecurityPolicy, after: SecurityPolicy): PolicyChange[] {
+  const a = flatten(before);
+  const b = flatten(after);
+  const changes: PolicyChange[] = [];
+
+  for (const [key, value] of a) {
+    if (!b.has(key)) {
+      changes.push({ kind: 'removed', key, before: value });
+    } else if (JSON.stringify(value) !== JSON.stringify(b.get(key))) {
+      changes.push({ kind: 'changed', key, before: value, after: b.get(key) });
+    }
+  }
+
+  for (const [key, value] of b) {
+    if (!a.has(key)) {
+      changes.push({ kind: 'added', key, after: value });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * The changes as recorded in the audit trail: rules keep their before/after,
+ * other sections (notifications, callbacks, overlays, ...) only name the keys
+ * that changed, so no webhook URL or header value is written down.
+ */
+export function auditChanges(changes: PolicyChange[]): PolicyChange[] {
+  return changes.map((change) => {
+    const isRule = change.key.includes('.') || RULE_KEYS.includes(change.key);
+    if (isRule) return change;
+    return {
+      kind: change.kind,
+      key: change.key,
+      fields: changedFields(change.before, change.after),
+    };
+  });
+}
+
+/**
+ * One-line summary of a change list, e.g. "+1 ~2 -0 (Shell.bash, FileSystem.write, Network.*)".
+ */
+export function summarizeChanges(changes: PolicyChange[]): string {
+  if (changes.length === 0) {
+    return 'no rule changes';
+  }
+  const count = (kind: PolicyChange['kind']): number =>
+    changes.filter((change) => change.kind === kind).length;
+  const keys = changes.map((change) => change.key).join(', ');
+  return `+${count('added')} ~${count('changed')} -${count('removed')} (${keys})`;
+}
@@ -0,0 +1,195 @@
+/**
+ * ClawBands RateLimiter
+ * Sliding-window call budgets for rules with a `limit`
+ *
+ * Counters live in memory in the plugin process and are written to
+ * ~/.openclaw/clawbands/rate-limits.json after every change, so a gateway
+ * restart does not hand a looping agent a fresh budget.
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import { CLAWBANDS_DATA_DIR, logger } from './Logger';
+import { RateLimit } from '../types';
+
+const RATE_LIMITS_FILE = path.join(CLAWBANDS_DATA_DIR, 'rate-limits.json');
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration such as "30s", "15m", "1h", "7d" (or a number of milliseconds).
+ * @returns milliseconds, or undefined if the value is not a positive duration
+ */
+export function parseDuration(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  }
+  if (typeof value !== 'string') return undefined;
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)$/.exec(value.trim());
+  if (!match) return undefined;
+  const ms = Number(match[1]) * DURATION_UNITS[match[2]];
+  return ms > 0 ? ms : undefined;
+}
+
+/**
+ * Human-readable duration: "42s", "3m 5s", "2h".
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  const parts = [
+    [Math.floor(seconds / 86400), 'd'],
+    [Math.floor((seconds % 86400) / 3600), 'h'],
+    [Math.floor((seconds % 3600) / 60), 'm'],
+    [seconds % 60, 's'],
+  ].filter(([amount]) => amount !== 0);
+  return parts
+    .slice(0, 2)
+    .map(([amount, unit]) => `${amount}${unit}`)
+    .join(' ');
+}
+
+export interface RateLimitStatus {
+  /** Counter key, e.g. "Network.fetch@session:agent:main:…" */
+  key: string;
+  /** Calls in the window, including this one if it was counted */
+  count: number;
+  max: number;
+  windowMs: number;
+  exceeded: boolean;
+  /** When the oldest call leaves the window (epoch ms), if the window is not empty */
+  resetAt?: number;
+  /** Timestamp recorded for this call (pass to release() if the call does not run) */
+  hit?: number;
+}
+
+interface CallWindow {
+  windowMs: number;
+  hits: number[];
+}
+
+/**
+ * Counter key for a rule and the caller, following the limit's `per` scope.
+ */
+export function rateLimitKey(
+  ruleKey: string,
+  limit: RateLimit,
+  scope: { sessionKey?: string; agentId?: string }
+): string {
+  switch (limit.per) {
+    case 'session':
+      return `${ruleKey}@session:${scope.sessionKey || '(none)'}`;
+    case 'agent':
+      return `${ruleKey}@agent:${scope.agentId || '(default)'}`;
+    default:
+      return ruleKey;
+  }
+}
+
+/**
+ * "max 20 Network.fetch per 1m per session"
+ */
+export function describeLimit(ruleKey: string, limit: RateLimit): string {
+  const window = typeof limit.window === 'number' ? formatDuration(limit.window) : limit.window;
+  const scope = limit.per && limit.per !== 'global' ? ` per ${limit.per}` : '';
+  return `max ${limit.max} ${ruleKey} per ${window}${scope}`;
+}
+
+export class RateLimiter {
+  private windows = new Map<string, CallWindow>();
+  private loaded: Promise<void> | undefined;
+  private writeChain = Promise.resolve();
+
+  constructor(private readonly file: string = RATE_LIMITS_FILE) {}
+
+  /**
+   * Count a call against the limit. A call within budget is recorded right
+   * away (so concurrent calls cannot overshoot); an exceeding call is not.
+   */
+  async take(key: string, limit: RateLimit, now: number = Date.now()): Promise<RateLimitStatus> {
+    await this.load();
+    const windowMs = parseDuration(limit.window) ?? 0;
+    const window = this.windows.get(key) ?? { windowMs, hits: [] };
+    window.windowMs = windowMs;
+    window.hits = window.hits.filter((hit) => hit > now - windowMs);
+
+    const exceeded = window.hits.length >= limit.max;
+    if (!exceeded) {
+      window.hits.push(now);
+    }
+    this.windows.set(key, window);
+    this.persist();
+
+    return {
+      key,
+      count: window.hits.length,
+      max: limit.max,
+      windowMs,
+      exceeded,
+      resetAt: window.hits.length > 0 ? window.hits[0] + windowMs : undefined,
+      hit: exceeded ? undefined : now,
+    };
+  }
+
+  /**
+   * Give back a call recorded by take() that did not go ahead (denied, not approved).
+   */
+  release(key: string, hit: number): void {
+    const window = this.windows.get(key);
+    const index = window ? window.hits.lastIndexOf(hit) : -1;
+    if (index === -1) return;
+    window!.hits.splice(index, 1);
+    this.persist();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async (): Promise<void> => {
+        try {
+          if (!(await fs.pathExists(this.file))) return;
+          const data = (await fs.readJson(this.file)) as Record<string, CallWindow>;
+          for (const [key, window] of Object.entries(data)) {
+            if (Array.isArray(window?.hits) && typeof window.windowMs === 'number') {
+              this.windows.set(key, window);
+            }
+          }
+        } catch (error) {
+          // A broken file only costs the history; the budgets start over
+          logger.warn('Failed to load rate limit counters, starting empty', { error });
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  /** Write the counters (expired calls dropped), serialized after earlier writes. */
+  private persist(): void {
+    const now = Date.now();
+    const snapshot: Record<string, CallWindow> = {};
+    for (const [key, window] of this.windows) {
+      const hits = window.hits.filter((hit) => hit > now - window.windowMs);
+      if (hits.length > 0) {
+        snapshot[key] = { windowMs: window.windowMs, hits };
+      } else {
+        this.windows.delete(key);
+      }
+    }
+
+    this.writeChain = this.writeChain
+      .then(async () => {
+        await fs.ensureDir(path.dirname(this.file));
+        await fs.writeJson(this.file, snapshot);
+      })
+      .catch((error) => {
+        logger.error('Failed to save rate limit counters', { error });
+      });
+  }
+}
+
+/** Shared instance used by the Interceptor. */
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,159 @@
+/**
+ * ClawBands Redactor
+ * Masks secrets and PII before they reach the audit trail, logs or prompts
+ *
+ * Strings are scanned with the built-in detectors plus user patterns; values
+ * of sensitive keys (authorization, password, token, ...) are replaced whole.
+ * In hash mode the replacement carries a short SHA-256 of the value, so two
+ * records can be matched without storing the secret.
+ */
+
+import crypto from 'crypto';
+import { RedactionConfig } from '../types';
+
+export interface Detector {
+  name: string;
+  pattern: RegExp;
+}
+
+/** Built-in detectors, applied in order */
+export const BUILTIN_DETECTORS: Detector[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: 'aws-secret-key',
+    pattern: /(?<=aws_secret_access_key["']?\s*[=:]\s*["']?)[A-Za-z0-9/+=]{40}/gi,
+  },
+  {
+    name: 'github-token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  { name: 'bearer', pattern: /(?<=\b(?:Bearer|Basic|Token)\s+)[A-Za-z0-9._~+/=-]{8,}/g },
+  {
+    name: 'credential-flag',
+    pattern: /(?<=--?(?:password|passwd|token|secret|api-key|apikey)(?:=|\s+))[^\s'"]+/gi,
+  },
+  { name: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+];
+
+/** Param/header names whose values are always redacted (compared without case, `-` or `_`) */
+const SENSITIVE_KEYS = [
+  'authorization',
+  'proxyauthorization',
+  'cookie',
+  'setcookie',
+  'password',
+  'passwd',
+  'secret',
+  'clientsecret',
+  'token',
+  'accesstoken',
+  'refreshtoken',
+  'apikey',
+  'xapikey',
+  'privatekey',
+];
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[-_]/g, '');
+}
+
+/**
+ * Whether values of a param/header with this name are credentials.
+ */
+export function isSensitiveKey(key: string): boolean {
+  return SENSITIVE_KEYS.includes(normalizeKey(key));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+export class Redactor {
+  private enabled = true;
+  private mode: 'mask' | 'hash' = 'mask';
+  private detectors: Detector[] = BUILTIN_DETECTORS;
+  private keys = new Set(SENSITIVE_KEYS);
+
+  constructor(config?: RedactionConfig) {
+    this.configure(config);
+  }
+
+  /**
+   * Apply redaction settings (from the policy). Invalid user patterns are skipped.
+   */
+  configure(config: RedactionConfig = {}): void {
+    this.enabled = config.enabled !== false;
+    this.mode = config.mode || 'mask';
+
+    const builtins = config.detectors
+      ? BUILTIN_DETECTORS.filter((detector) => config.detectors!.includes(detector.name))
+      : BUILTIN_DETECTORS;
+    const custom: Detector[] = [];
+    for (const { name, pattern } of config.patterns || []) {
+      try {
+        custom.push({ name, pattern: new RegExp(pattern, 'g') });
+      } catch {
+        // Rejected by the validator; ignore if it slipped through
+      }
+    }
+    this.detectors = [...builtins, ...custom];
+    this.keys = new Set([...SENSITIVE_KEYS, ...(config.keys || []).map(normalizeKey)]);
+  }
+
+  /**
+   * Deep copy of the value with secrets replaced. Non-plain objects
+   * (errors, buffers, ...) are returned as they are.
+   */
+  redact<T>(value: T): T {
+    if (!this.enabled) return value;
+    return this.redactValue(value) as T;
+  }
+
+  /**
+   * Redact a string with the detectors.
+   */
+  redactString(text: string): string {
+    if (!this.enabled) return text;
+    return this.detectors.reduce(
+      (result, detector) =>
+        result.replace(detector.pattern, (match) => this.replacement(detector.name, match)),
+      text
+    );
+  }
+
+  private redactValue(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item));
+    }
+    if (isPlainObject(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] =
+          this.keys.has(normalizeKey(key)) && (typeof item === 'string' || typeof item === 'number')
+            ? this.replacement(key, String(item))
+            : this.redactValue(item);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  private replacement(label: string, secret: string): string {
+    if (this.mode === 'hash') {
+      const digest = crypto.createHash('sha256').update(secret).digest('hex').slice(0, 16);
+      return `[REDACTED:${label}:${digest}]`;
+    }
+    return `[REDACTED:${label}]`;
+  }
+}
+
+/** Shared instance, configured from the policy by the Interceptor. */
+export const redactor = new Redactor();
@@ -0,0 +1,278 @@
+/**
+ * ClawBands RuleMatcher
+ * Argument-aware matching of rule conditions against tool params
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { RiskMatch, RuleCondition, RuleMatch, SecurityRule } from '../types';
+import { analyzeShellCommand } from './ShellAnalyzer';
+import { matchesSchedule } from './Schedule';
+
+/** Param keys that may carry a file path, in lookup order. */
+const PATH_KEYS = ['path', 'file_path', 'filePath', 'file', 'filename'];
+
+/** Param keys that may carry a shell command, in lookup order. */
+const COMMAND_KEYS = ['command', 'cmd', 'script'];
+
+/** Param keys that may carry a URL, in lookup order. */
+const URL_KEYS = ['url', 'href', 'uri', 'targetUrl'];
+
+/**
+ * Shell control operators. A command containing any of these is a compound
+ * command, so a prefix like "git status" must not vouch for the whole line.
+ */
+const SHELL_CONTROL = /[;&|`\n\r<>]|\$\(/;
+
+/**
+ * Extract the tool params object from the interceptor args.
+ * OpenClaw passes a single params object as the first argument.
+ */
+export function getParams(args: unknown[]): Record<string, unknown> {
+  const first = args[0];
+  return first && typeof first === 'object' && !Array.isArray(first)
+    ? (first as Record<string, unknown>)
+    : {};
+}
+
+function firstStringKey(params: Record<string, unknown>, keys: string[]): string | undefined {
+  return keys.find((key) => {
+    const value = params[key];
+    return typeof value === 'string' && value.length > 0;
+  });
+}
+
+function firstString(params: Record<string, unknown>, keys: string[]): string | undefined {
+  const key = firstStringKey(params, keys);
+  return key === undefined ? undefined : (params[key] as string);
+}
+
+/** Target path of a FileSystem call, if any. */
+export function extractPath(params: Record<string, unknown>): string | undefined {
+  return firstString(params, PATH_KEYS);
+}
+
+/** Param key holding the target path (e.g. "file_path"), if any. */
+export function pathParamKey(params: Record<string, unknown>): string | undefined {
+  return firstStringKey(params, PATH_KEYS);
+}
+
+/** Shell command of a Shell call, if any. */
+export function extractCommand(params: Record<string, unknown>): string | undefined {
+  return firstString(params, COMMAND_KEYS);
+}
+
+/** Param key holding the shell command (e.g. "cmd"), if any. */
+export function commandParamKey(params: Record<string, unknown>): string | undefined {
+  return firstStringKey(params, COMMAND_KEYS);
+}
+
+/** Target URL of a Network/Browser call, if any. */
+export function extractUrl(params: Record<string, unknown>): string | undefined {
+  return firstString(params, URL_KEYS);
+}
+
+function expandHome(p: string): string {
+  return p === '~' || p.startsWith('~/') ? os.homedir() + p.slice(1) : p;
+}
+
+/**
+ * Expand a leading `~` and resolve to an absolute, normalized path
+ * (so `/workspace/../etc` cannot sneak past a `/workspace/**` glob).
+ */
+export function normalizePath(p: string): string {
+  return path.resolve(expandHome(p));
+}
+
+/**
+ * Resolve symlinks in an absolute path through its deepest existing ancestor,
+ * so a link (or a not-yet-created file below one) is judged by where it really
+ * points. Returns the path unchanged if it cannot be resolved.
+ */
+export function realPath(p: string): string {
+  let existing = p;
+  const rest: string[] = [];
+  while (!fs.existsSync(existing) && path.dirname(existing) !== existing) {
+    rest.unshift(path.basename(existing));
+    existing = path.dirname(existing);
+  }
+  try {
+    return path.join(fs.realpathSync(existing), ...rest);
+  } catch {
+    return p;
+  }
+}
+
+/** Resolve the literal directories a glob starts with (`/tmp/**` is `/private/tmp/**` on macOS) */
+function realGlob(glob: string): string {
+  const segments = normalizePath(glob).split('/');
+  const wild = segments.findIndex((segment) => /[*?]/.test(segment));
+  if (wild === -1) return realPath(segments.join('/'));
+  return path.join(realPath(segments.slice(0, wild).join('/') || '/'), ...segments.slice(wild));
+}
+
+/**
+ * Convert a glob into an anchored regular expression.
+ * Supports `**` (any depth), `*` (within a segment) and `?` (one character).
+ * A trailing `/**` also matches the directory itself.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        re += '(?:.*/)?';
+        i += 2;
+      } else if (re.endsWith('/') && i + 2 === glob.length) {
+        re = re.slice(0, -1) + '(?:/.*)?';
+        i += 1;
+      } else {
+        re += '.*';
+        i += 1;
+      }
+    } else if (c === '*') {
+      re += '[^/]*';
+    } else if (c === '?') {
+      re += '[^/]';
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/**
+ * Match a path against a glob.
+ * Globs without a `/` (e.g. `*.pem`) match the basename, like .gitignore.
+ * Symlinks are resolved first, in the target (through its nearest existing
+ * parent for a file not created yet) and in the glob's leading directories:
+ * a link under `/workspace/**` that points to `/etc/passwd` is matched as
+ * `/etc/passwd`.
+ */
+export function matchPathGlob(target: string, glob: string): boolean {
+  const resolved = realPath(normalizePath(target));
+  if (!glob.includes('/')) {
+    return globToRegExp(glob).test(path.basename(resolved));
+  }
+  return globToRegExp(realGlob(glob)).test(resolved);
+}
+
+/** Match a hostname against an allow-list entry (`*.example.com` matches subdomains). */
+export function matchHost(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase();
+  const p = pattern.toLowerCase();
+  if (p.startsWith('*.')) {
+    return host.endsWith(p.slice(1));
+  }
+  return host === p;
+}
+
+function toList<T>(value: T | T[] | undefined): T[] | undefined {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value : [value];
+}
+
+function safeRegExp(source: string): RegExp | undefined {
+  try {
+    return new RegExp(source);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check a risk condition against the categories the ShellAnalyzer finds in the command.
+ */
+function matchesRisk(match: RiskMatch, command: string | undefined): boolean {
+  if (!command?.trim()) return false;
+  const { risks } = analyzeShellCommand(command);
+  const any = toList(match.any);
+  if (any && !risks.some((risk) => any.includes(risk))) return false;
+  const only = toList(match.only);
+  // A command with no segment at all (e.g. only a comment) is not "only" anything
+  if (only && (risks.length === 0 || !risks.every((risk) => only.includes(risk)))) return false;
+  return true;
+}
+
+/**
+ * When a call is matched: the instant and the timezone `schedule` is read in
+ */
+export interface MatchContext {
+  /** Default: now */
+  now?: Date;
+  /** IANA timezone (default: local time) */
+  timezone?: string;
+}
+
+/**
+ * Check whether every field of a RuleMatch is satisfied by the params.
+ * A field whose param is missing from the call never matches.
+ */
+export function matchesRule(
+  match: RuleMatch,
+  params: Record<string, unknown>,
+  context: MatchContext = {}
+): boolean {
+  const schedules = toList(match.schedule);
+  if (schedules) {
+    const now = context.now ?? new Date();
+    if (!schedules.some((schedule) => matchesSchedule(schedule, now, context.timezone))) {
+      return false;
+    }
+  }
+
+  const paths = toList(match.path);
+  if (paths) {
+    const target = extractPath(params);
+    if (!target || !paths.some((glob) => matchPathGlob(target, glob))) return false;
+  }
+
+  const commands = toList(match.command);
+  const prefixes = toList(match.commandPrefix);
+  if (commands || prefixes) {
+    const command = extractCommand(params)?.trim();
+    if (!command) return false;
+    if (commands && !commands.some((source) => safeRegExp(source)?.test(command))) return false;
+    if (prefixes) {
+      if (SHELL_CONTROL.test(command)) return false;
+      const hasPrefix = prefixes.some(
+        (prefix) => command === prefix.trim() || command.startsWith(prefix.trim() + ' ')
+      );
+      if (!hasPrefix) return false;
+    }
+  }
+
+  if (match.risk && !matchesRisk(match.risk, extractCommand(params))) return false;
+
+  const hosts = toList(match.host);
+  const schemes = toList(match.scheme);
+  if (hosts || schemes) {
+    const raw = extractUrl(params);
+    if (!raw) return false;
+    let url: URL;
+    try {
+      url = new URL(raw);
+    } catch {
+      return false;
+    }
+    if (hosts && !hosts.some((host) => matchHost(url.hostname, host))) return false;
+    const scheme = url.protocol.replace(/:$/, '').toLowerCase();
+    if (schemes && !schemes.some((s) => s.toLowerCase() === scheme)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Return the first condition of the rule that matches the params (first-match-wins),
+ * or undefined when the rule's own action applies.
+ */
+export function findMatchingCondition(
+  rule: SecurityRule,
+  params: Record<string, unknown>,
+  context: MatchContext = {}
+): RuleCondition | undefined {
+  return rule.conditions?.find((condition) => matchesRule(condition.match, params, context));
+}
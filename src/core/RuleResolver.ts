@@ -0,0 +1,186 @@
+/**
+ * ClawBands RuleResolver
+ * Resolution chain: exact method → module wildcard ('*') → module default → global default
+ *
+ * Overlays matching the caller's agent / session are layered over the base
+ * policy, from the most specific (last matching overlay) to the base policy.
+ * Each layer runs the whole chain before the next one is looked at, so an
+ * overlay's `Shell.*`, module default or default action takes precedence over
+ * the base policy's `Shell.bash`.
+ */
+
+import { CallScope, Decision, ModuleRules, SecurityPolicy, SecurityRule } from '../types';
+import { findMatchingCondition, MatchContext } from './RuleMatcher';
+import { matchingOverlays, overlayLabel } from './OverlayMatcher';
+
+/** Wildcard method key matching every method of a module. */
+export const WILDCARD_METHOD = '*';
+
+/**
+ * Which link of the resolution chain produced the rule
+ * - method: exact `Module.method` rule
+ * - wildcard: `Module.*` rule
+ * - module-default: `moduleDefaults[Module]`
+ * - default: policy `defaultAction`
+ */
+export type RuleSource = 'method' | 'wildcard' | 'module-default' | 'default';
+
+export interface ResolvedRule {
+  /** Effective rule (condition applied, if one matched) */
+  rule: SecurityRule;
+  source: RuleSource;
+  /** Policy key that produced the rule (e.g. "Shell.bash", "Shell.*") */
+  key: string;
+  /** Overlay that produced the rule, if not the base policy */
+  overlay?: string;
+  /** Index of the matching condition within the rule, if any */
+  conditionIndex?: number;
+  /** Human-readable steps of the resolution, in order */
+  trace: string[];
+}
+
+/** One layer of the resolution: an overlay or the base policy */
+interface Layer {
+  /** Overlay label, undefined for the base policy */
+  overlay?: string;
+  modules?: ModuleRules;
+  moduleDefaults?: { [moduleName: string]: Decision };
+  defaultAction?: Decision;
+}
+
+/**
+ * Resolve the rule that applies to a module/method call with the given params.
+ * @param now - Instant `schedule` conditions are evaluated at (default: now)
+ */
+export function resolveRule(
+  policy: SecurityPolicy,
+  moduleName: string,
+  methodName: string,
+  params: Record<string, unknown>,
+  scope: CallScope = {},
+  now: Date = new Date()
+): ResolvedRule {
+  const trace: string[] = [];
+  const context: MatchContext = { now, timezone: policy.timezone };
+
+  const overlays = matchingOverlays(policy, scope);
+  const layers: Layer[] = [
+    ...[...overlays].reverse().map((overlay) => ({
+      overlay: overlayLabel(policy, overlay),
+      modules: overlay.modules,
+      moduleDefaults: overlay.moduleDefaults,
+      defaultAction: overlay.defaultAction,
+    })),
+    {
+      modules: policy.modules,
+      moduleDefaults: policy.moduleDefaults,
+      defaultAction: policy.defaultAction,
+    },
+  ];
+  if (overlays.length > 0) {
+    trace.push(
+      `overlays applied: ${layers
+        .slice(0, -1)
+        .map((l) => l.overlay)
+        .join(', ')}`
+    );
+  }
+
+  const candidates: Array<{ source: RuleSource; method: string }> = [
+    { source: 'method', method: methodName },
+    { source: 'wildcard', method: WILDCARD_METHOD },
+  ];
+
+  for (const layer of layers) {
+    for (const { source, method } of candidates) {
+      const key = `${moduleName}.${method}`;
+      const rule = layer.modules?.[moduleName]?.[method];
+      const label = prefix(layer, key);
+      if (!rule) {
+        trace.push(`${label}: no rule`);
+        continue;
+      }
+      trace.push(`${label}: rule found (${rule.action})`);
+      return {
+        ...applyConditions(rule, params, label, trace, context),
+        source,
+        key,
+        overlay: layer.overlay,
+      };
+    }
+
+    const moduleDefault = layer.moduleDefaults?.[moduleName];
+    const defaultLabel = prefix(layer, `moduleDefaults.${moduleName}`);
+    if (moduleDefault) {
+      trace.push(`${defaultLabel}: ${moduleDefault}`);
+      return {
+        rule: {
+          action: moduleDefault,
+          description: `Module default for ${moduleName}`,
+        },
+        source: 'module-default',
+        key: `moduleDefaults.${moduleName}`,
+        overlay: layer.overlay,
+        trace,
+      };
+    }
+    trace.push(`${defaultLabel}: not set`);
+
+    // Overlays may leave defaultAction unset; the base layer always defines it
+    if (layer.defaultAction !== undefined) {
+      trace.push(`${prefix(layer, 'defaultAction')}: ${layer.defaultAction}`);
+      return {
+        rule: {
+          action: layer.defaultAction,
+          description: `No specific rule defined for ${moduleName}.${methodName}`,
+        },
+        source: 'default',
+        key: 'defaultAction',
+        overlay: layer.overlay,
+        trace,
+      };
+    }
+  }
+
+  throw new Error('Policy has no defaultAction');
+}
+
+function prefix(layer: Layer, key: string): string {
+  return layer.overlay ? `[${layer.overlay}] ${key}` : key;
+}
+
+/**
+ * Apply a rule's conditions (first match wins), recording the outcome in the trace.
+ */
+function applyConditions(
+  rule: SecurityRule,
+  params: Record<string, unknown>,
+  key: string,
+  trace: string[],
+  context: MatchContext
+): { rule: SecurityRule; conditionIndex?: number; trace: string[] } {
+  const condition = findMatchingCondition(rule, params, context);
+  if (!condition) {
+    if (rule.conditions?.length) {
+      trace.push(`${key}: none of ${rule.conditions.length} condition(s) matched`);
+    }
+    return { rule, trace };
+  }
+
+  const conditionIndex = rule.conditions!.indexOf(condition);
+  trace.push(
+    `${key}: condition #${conditionIndex + 1} matched ${JSON.stringify(condition.match)} → ${condition.action}`
+  );
+  return {
+    rule: {
+      action: condition.action,
+      description: condition.description || rule.description,
+      rewrite: condition.rewrite || rule.rewrite,
+      limit: rule.limit,
+      approvers: condition.approvers || rule.approvers,
+      approvalTimeout: condition.approvalTimeout || rule.approvalTimeout,
+    },
+    conditionIndex,
+    trace,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * ClawBands Schedule
+ * Day-of-week and time-of-day windows for the `schedule` condition matcher
+ *
+ * Times are evaluated in the policy's `timezone` (IANA name, e.g.
+ * "Europe/Berlin"), or the gateway's local time when it is not set. A window
+ * whose `to` is earlier than its `from` runs overnight: "22:00"–"06:00" on
+ * "fri" covers Friday 23:00 and Saturday 02:00.
+ */
+
+import { Schedule } from '../types';
+
+/** Day names, indexed like Date.getDay() */
+export const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** Names accepted in `days` besides the day names */
+const DAY_GROUPS: Record<string, string[]> = {
+  weekdays: ['mon', 'tue', 'wed', 'thu', 'fri'],
+  weekends: ['sat', 'sun'],
+  daily: DAY_NAMES,
+};
+
+const CLOCK = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export interface LocalTime {
+  /** 0 = Sunday … 6 = Saturday */
+  day: number;
+  /** Minutes since midnight */
+  minutes: number;
+}
+
+/**
+ * Minutes since midnight of an "HH:MM" time, or undefined if malformed.
+ */
+export function parseClock(value: string): number | undefined {
+  const match = CLOCK.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+}
+
+/**
+ * Whether the runtime knows the IANA timezone name.
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a `days` entry is a day name or group ("mon", "weekdays", ...).
+ */
+export function isDayName(value: string): boolean {
+  const name = value.toLowerCase();
+  return DAY_NAMES.includes(name) || name in DAY_GROUPS;
+}
+
+/**
+ * Day of the week and time of day of an instant in a timezone.
+ */
+export function localTime(now: Date, timezone?: string): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string): string => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    day: DAY_NAMES.indexOf(part('weekday').toLowerCase()),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+/**
+ * "Mon 14:05"
+ */
+export function formatLocalTime({ day, minutes }: LocalTime): string {
+  const name = DAY_NAMES[day];
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mm = String(minutes % 60).padStart(2, '0');
+  return `${name[0].toUpperCase()}${name.slice(1)} ${hh}:${mm}`;
+}
+
+function scheduleDays(schedule: Schedule): number[] {
+  if (schedule.days === undefined) return DAY_NAMES.map((_, index) => index);
+  const names = ([] as string[]).concat(schedule.days).flatMap((value) => {
+    const name = value.toLowerCase();
+    return DAY_GROUPS[name] ?? [name];
+  });
+  return names.map((name) => DAY_NAMES.indexOf(name)).filter((index) => index !== -1);
+}
+
+/**
+ * Whether the instant falls inside the schedule.
+ */
+export function matchesSchedule(schedule: Schedule, now: Date, timezone?: string): boolean {
+  const { day, minutes } = localTime(now, timezone);
+  const days = scheduleDays(schedule);
+  const from = parseClock(schedule.from ?? '00:00') ?? 0;
+  const to = schedule.to === undefined ? 24 * 60 : (parseClock(schedule.to) ?? 24 * 60);
+
+  if (from <= to) {
+    return days.includes(day) && minutes >= from && minutes < to;
+  }
+  // Overnight: the evening of a listed day, or the early hours of the day after
+  const previousDay = (day + 6) % 7;
+  return (days.includes(day) && minutes >= from) || (days.includes(previousDay) && minutes < to);
+}
+
+/**
+ * "weekdays 09:00–18:00"
+ */
+export function describeSchedule(schedule: Schedule): string {
+  const days =
+    schedule.days === undefined ? 'daily' : ([] as string[]).concat(schedule.days).join(',');
+  const hours =
+    schedule.from === undefined && schedule.to === undefined
+      ? 'all day'
+      : `${schedule.from ?? '00:00'}–${schedule.to ?? '24:00'}`;
+  return `${days} ${hours}`;
+}
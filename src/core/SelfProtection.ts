@@ -0,0 +1,466 @@
+/**
+ * ClawBands SelfProtection
+ * Built-in guard against tool calls that target ClawBands itself
+ *
+ * Checked before the policy and not configurable: an agent must not be able
+ * to edit its own policy, rewrite the audit trail, read the audit key or turn
+ * the plugin off in openclaw.json, whatever the policy says.
+ */
+
+import os from 'os';
+import path from 'path';
+import { CLAWBANDS_DATA_DIR } from './Logger';
+import { extractCommand, extractPath, normalizePath, realPath } from './RuleMatcher';
+
+const OPENCLAW_HOME = path.dirname(CLAWBANDS_DATA_DIR);
+const OPENCLAW_CONFIG_FILE = path.join(OPENCLAW_HOME, 'openclaw.json');
+const AUDIT_KEY_FILE = path.join(CLAWBANDS_DATA_DIR, 'audit.key');
+
+/** Installed package root (dist/core → package root) */
+const PACKAGE_DIR = path.resolve(__dirname, '..', '..');
+
+/** Where `openclaw plugins install` puts the plugin */
+const EXTENSION_DIR = path.join(OPENCLAW_HOME, 'extensions', 'clawbands');
+
+/**
+ * Built-in OpenClaw tools that only read, allowed on protected paths (except
+ * the audit key). Keyed on the tool, not the mapped method: a custom tool
+ * mapping can map any tool to `FileSystem.read`.
+ */
+const READ_ONLY_TOOLS = ['read', 'glob'];
+
+/** Programs that only read the files they are given (except the audit key, as for read tools) */
+const READING_COMMANDS = ['cat', 'head', 'tail', 'grep', 'wc', 'diff', 'jq', 'md5sum', 'sha256sum'];
+
+/** Programs that only look at names and metadata */
+const LISTING_COMMANDS = ['cd', 'pushd', 'ls', 'stat', 'find'];
+
+/** Read-only `clawbands` CLI invocations an agent may run (flags aside) */
+const READ_ONLY_CLI = [
+  '',
+  'audit',
+  'audit verify',
+  'grants',
+  'grants list',
+  'stats',
+  'tools',
+  'policy explain',
+  'policy validate',
+  'policy export',
+];
+
+/** Subcommands that change state under an otherwise read-only command */
+const WRITE_SUBCOMMANDS = ['keygen', 'confirm', 'revoke', 'revoke-all'];
+
+/** Commands that also affect everything below a directory they are given */
+const RECURSIVE_COMMANDS = ['rm', 'rmdir', 'mv', 'chmod', 'chown', 'find', 'rsync', 'shred'];
+
+/** Commands that overwrite or replace the paths they are given */
+const WRITING_COMMANDS = ['cp', 'ln', 'tee', 'truncate', 'unlink', 'install', 'dd'];
+
+/** find actions that delete, run commands or write files; without them find only lists */
+const FIND_ACTIONS = [
+  '-delete',
+  '-exec',
+  '-execdir',
+  '-ok',
+  '-okdir',
+  '-fprint',
+  '-fprint0',
+  '-fprintf',
+  '-fls',
+];
+
+/** Words that run the rest of the line as a command */
+const COMMAND_WRAPPERS = ['sudo', 'env', 'command', 'exec', 'nohup', 'nice', 'time', 'npx'];
+
+/** Splits a command line into simple commands, keeping the separators */
+const COMMAND_SEPARATOR = /(;|&&|\|\||\||&|\n|\r|`|\$\(|\(|\))/;
+
+/** Characters around words in a command line (quotes, redirections, `=` of --opt=value, ...) */
+const WORD_SEPARATOR = /[\s'"<>(){},=:;&|`]+/;
+
+/** Output redirection and its target (`> file`, `2>> file`, `&> file`) */
+const REDIRECTION = /(?:\d|&)?>>?\|?\s*([^\s;&|<>()'"]+)/g;
+
+/** Shell wildcards, expanded against the protected paths */
+const GLOB_CHARS = /[*?[]/;
+
+export interface SelfProtectionViolation {
+  /** Protected resource, e.g. "ClawBands data directory" */
+  target: string;
+  /** What gave the call away, e.g. the path or the command */
+  detail: string;
+}
+
+interface ProtectedPath {
+  label: string;
+  path: string;
+}
+
+/** What a simple command does with the paths it is given */
+type CommandKind = 'recursive' | 'writing' | 'reading' | 'listing' | 'other';
+
+let protectedPaths: ProtectedPath[] | undefined;
+
+function getProtectedPaths(): ProtectedPath[] {
+  if (!protectedPaths) {
+    const entries: ProtectedPath[] = [
+      { label: 'ClawBands data directory', path: CLAWBANDS_DATA_DIR },
+      { label: 'OpenClaw config', path: OPENCLAW_CONFIG_FILE },
+      { label: 'ClawBands plugin directory', path: PACKAGE_DIR },
+      { label: 'ClawBands plugin directory', path: EXTENSION_DIR },
+    ];
+    // Protect both the configured and the real location of each path
+    protectedPaths = entries.flatMap((entry) => {
+      const real = realPath(entry.path);
+      return real === entry.path ? [entry] : [entry, { ...entry, path: real }];
+    });
+  }
+  return protectedPaths;
+}
+
+function isInside(target: string, dir: string): boolean {
+  return target === dir || target.startsWith(dir + path.sep);
+}
+
+/** Protected path below the target directory, if any. */
+function protectedPathBelow(target: string): ProtectedPath | undefined {
+  const resolved = realPath(normalizePath(target));
+  return getProtectedPaths().find((entry) => isInside(entry.path, resolved));
+}
+
+/** Protected path that contains the target, if any. */
+function protectedPathFor(target: string): ProtectedPath | undefined {
+  const resolved = normalizePath(target);
+  const real = realPath(resolved);
+  return getProtectedPaths().find(
+    (entry) => isInside(resolved, entry.path) || isInside(real, entry.path)
+  );
+}
+
+/** Replace $HOME / ${HOME} / $OPENCLAW_HOME references with their values. */
+function expandVariables(command: string): string {
+  return command
+    .replace(/\$\{?OPENCLAW_HOME\}?/g, OPENCLAW_HOME)
+    .replace(/\$\{?HOME\}?/g, os.homedir());
+}
+
+/** Expand `a{b,c}d` into `abd acd`, as the shell does before running the command. */
+function expandBraces(command: string): string {
+  const brace = /([^\s{}]*)\{([^\s{}]*,[^\s{}]*)\}(\S*)/;
+  let expanded = command;
+  for (let match = brace.exec(expanded); match; match = brace.exec(expanded)) {
+    const [whole, before, list, after] = match;
+    const words = list.split(',').map((item) => before + item + after);
+    expanded = expanded.replace(whole, () => words.join(' '));
+  }
+  return expanded;
+}
+
+/**
+ * Whether one path component matches a shell wildcard pattern (`*`, `?`,
+ * `[...]`). As in the shell, wildcards do not match a leading dot.
+ */
+function componentMatches(pattern: string, name: string): boolean {
+  if (!GLOB_CHARS.test(pattern)) return pattern === name;
+  if (name.startsWith('.') && !pattern.startsWith('.')) return false;
+  const source = pattern
+    .split(/(\[!?[^\]]+\]|\*|\?)/)
+    .map((part) => {
+      if (part === '*') return '.*';
+      if (part === '?') return '.';
+      if (part.startsWith('[') && part.length > 2) return part.replace(/^\[!/, '[^');
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`).test(name);
+}
+
+/**
+ * Protected path a (possibly wildcard) path can name, or be inside of, or for
+ * `above` be a directory above of. A relative path (`anchored` false) may
+ * start in any directory at or below the OpenClaw home.
+ */
+function protectedPathMatching(
+  parts: string[],
+  anchored: boolean,
+  above: boolean
+): ProtectedPath | undefined {
+  const home = [OPENCLAW_HOME, realPath(OPENCLAW_HOME)];
+  return getProtectedPaths().find((entry) => {
+    const dirs = entry.path.split(path.sep).filter(Boolean);
+    const base = home.find((dir) => isInside(entry.path, dir));
+    // Relative paths: only names that reach the OpenClaw home or the plugin directory
+    const floor = base ? base.split(path.sep).filter(Boolean).length : dirs.length;
+    const starts = anchored ? [0] : dirs.map((_, i) => i);
+    return starts.some((start) => {
+      if (!anchored && start + parts.length < floor) return false;
+      const overlap = Math.min(parts.length, dirs.length - start);
+      if (overlap < dirs.length - start && !above) return false;
+      return parts.slice(0, overlap).every((part, i) => componentMatches(part, dirs[start + i]));
+    });
+  });
+}
+
+/**
+ * Path components of a path word, `.` and `..` resolved. Leading `..` are
+ * dropped: they lead to a directory as unknown as the one they start from.
+ */
+function pathParts(word: string): string[] {
+  return path
+    .normalize(word)
+    .split(path.sep)
+    .filter((part) => part && part !== '.' && part !== '..');
+}
+
+/**
+ * Absolute form of a path word (`/x`, `~/x`, or relative once the directory is
+ * known); undefined for a relative word in an unknown directory.
+ */
+function placeWord(word: string, cwd: string | undefined): string | undefined {
+  if (word === '~' || word.startsWith('~/')) return os.homedir() + word.slice(1);
+  if (word.startsWith('/')) return word;
+  return cwd === undefined ? undefined : path.join(cwd, word);
+}
+
+/**
+ * Protected path an absolute path word refers to: containing it or, for
+ * `above`, below it. Wildcard words are matched against the protected paths.
+ */
+function protectedPathAt(target: string, above: boolean): ProtectedPath | undefined {
+  if (GLOB_CHARS.test(target)) {
+    return protectedPathMatching(pathParts(target), true, above);
+  }
+  return protectedPathFor(target) || (above ? protectedPathBelow(target) : undefined);
+}
+
+/**
+ * Whether an absolute path word is or may be the audit key (for `above`, also
+ * a directory above it, where a recursive read reaches it).
+ */
+function reachesAuditKey(target: string, above: boolean): boolean {
+  const key = realPath(AUDIT_KEY_FILE);
+  if (GLOB_CHARS.test(target)) {
+    const parts = pathParts(target);
+    return [AUDIT_KEY_FILE, key].some((file) => {
+      const dirs = file.split(path.sep).filter(Boolean);
+      if (parts.length > dirs.length || (parts.length < dirs.length && !above)) return false;
+      return parts.every((part, i) => componentMatches(part, dirs[i]));
+    });
+  }
+  const resolved = realPath(normalizePath(target));
+  return isInside(resolved, key) || (above && isInside(key, resolved));
+}
+
+/**
+ * Check a path-carrying call (write, edit, delete, ...).
+ */
+function checkPath(
+  toolName: string | undefined,
+  target: string
+): SelfProtectionViolation | undefined {
+  const entry = protectedPathFor(target);
+  if (!entry) return undefined;
+
+  if (toolName && READ_ONLY_TOOLS.includes(toolName.toLowerCase())) {
+    // Reading the policy or the log is harmless; reading the key would let
+    // the agent re-sign a forged audit trail
+    if (!reachesAuditKey(target, false)) return undefined;
+    return { target: 'audit key', detail: target };
+  }
+  return { target: entry.label, detail: target };
+}
+
+/**
+ * Command name and arguments of a simple command, without wrappers
+ * (sudo, env VAR=1, npx, ...).
+ */
+function commandWords(segment: string): string[] {
+  const words = segment
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.replace(/^['"]|['"]$/g, ''))
+    .filter(Boolean);
+  while (
+    words.length > 0 &&
+    (COMMAND_WRAPPERS.includes(path.basename(words[0])) || /^\w+=/.test(words[0]))
+  ) {
+    words.shift();
+  }
+  return words;
+}
+
+/** Targets of the output redirections of a simple command (`> file`), /dev/null aside */
+function redirectionTargets(segment: string): string[] {
+  return Array.from(segment.matchAll(REDIRECTION), (match) => match[1]).filter(
+    (target) => !target.startsWith('&') && target !== '/dev/null'
+  );
+}
+
+function commandKind(program: string, args: string[]): CommandKind {
+  const name = path.basename(program);
+  if (name === 'find') {
+    return args.some((arg) => FIND_ACTIONS.includes(arg)) ? 'recursive' : 'listing';
+  }
+  if (RECURSIVE_COMMANDS.includes(name)) return 'recursive';
+  if (WRITING_COMMANDS.includes(name)) return 'writing';
+  if (READING_COMMANDS.includes(name)) return 'reading';
+  if (LISTING_COMMANDS.includes(name)) return 'listing';
+  return 'other';
+}
+
+/**
+ * Check one simple command for CLI calls that would change or disable ClawBands.
+ */
+function checkCliCall(segment: string): SelfProtectionViolation | undefined {
+  const [program, ...args] = commandWords(segment);
+  if (!program) return undefined;
+  const name = path.basename(program);
+
+  if (name === 'clawbands') {
+    const [command = '', subcommand = ''] = args.filter((arg) => !arg.startsWith('-'));
+    const invocation = READ_ONLY_CLI.includes(`${command} ${subcommand}`)
+      ? `${command} ${subcommand}`
+      : command;
+    if (!READ_ONLY_CLI.includes(invocation) || WRITE_SUBCOMMANDS.includes(subcommand)) {
+      return { target: 'ClawBands CLI', detail: segment.trim() };
+    }
+  }
+
+  if (name === 'openclaw' && args.some((arg) => /clawbands/i.test(arg))) {
+    const readOnly = args.every(
+      (arg) =>
+        ['plugins', 'list', 'info', 'status', '--help', '-h'].includes(arg) ||
+        /clawbands/i.test(arg)
+    );
+    if (!readOnly) {
+      return { target: 'OpenClaw plugin configuration', detail: segment.trim() };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check one simple command for references to protected paths, relative ones
+ * resolved against `cwd` (the directory the command line changed to, if known).
+ * Reading and listing commands may look at protected paths but the audit key.
+ */
+function checkPathWords(
+  segment: string,
+  cwd: string | undefined
+): SelfProtectionViolation | undefined {
+  const [program = '', ...args] = commandWords(segment);
+  const kind = commandKind(program, args);
+  const recursive = kind === 'recursive';
+  const readOnly = kind === 'reading' || kind === 'listing';
+  const redirections = redirectionTargets(segment);
+
+  for (const word of segment.split(WORD_SEPARATOR)) {
+    if (!word || word.startsWith('-')) continue;
+    const target = placeWord(word, cwd);
+    if (readOnly && !redirections.includes(word)) {
+      if (target && reachesAuditKey(target, kind === 'reading')) {
+        return { target: 'audit key', detail: word };
+      }
+    } else if (target) {
+      const entry = protectedPathAt(target, recursive);
+      if (entry) return { target: entry.label, detail: word };
+    } else if (/(^|\/)openclaw\.json$/.test(word)) {
+      // Relative reference (e.g. after `cd ~/.openclaw`)
+      return { target: 'OpenClaw config', detail: word };
+    } else if (/(^|\/)\.openclaw\/clawbands(\/|$)/.test(word)) {
+      return { target: 'ClawBands data directory', detail: word };
+    }
+  }
+
+  // Paths a command deletes or overwrites: a relative or wildcard one may be
+  // a protected path, depending on where the command runs
+  const changed = [
+    ...(recursive || kind === 'writing' ? args.filter((arg) => !arg.startsWith('-')) : []),
+    ...redirections,
+  ];
+  for (const word of changed) {
+    // `dd of=file`
+    const file = word.slice(word.indexOf('=') + 1);
+    if (placeWord(file, cwd)) continue;
+    const entry = protectedPathMatching(pathParts(file), false, recursive);
+    if (entry) return { target: entry.label, detail: word };
+  }
+  return undefined;
+}
+
+/**
+ * Directory a simple command changes to (cd, pushd), undefined if it cannot
+ * be told; `cwd` if the command is not a cd.
+ */
+function changedDirectory(segment: string, cwd: string | undefined): string | undefined {
+  const [program, ...args] = commandWords(segment);
+  if (program === 'popd') return undefined;
+  if (program !== 'cd' && program !== 'pushd') return cwd;
+  const [dir = '~'] = args.filter((arg) => !arg.startsWith('-') || arg === '-');
+  if (dir === '-') return undefined;
+  return placeWord(dir, cwd);
+}
+
+/**
+ * Check a shell command: references to protected paths (or, for rm/mv/chmod/...,
+ * to a directory containing one, or a relative or wildcard path that may name
+ * one) and CLI calls that would reconfigure or disable ClawBands.
+ *
+ * `cd dir && ...` moves the rest of the line to dir. Any other cd (in a
+ * subshell, or one that may fail) only adds dir to the directories the rest
+ * may run in, and each of them is checked.
+ */
+function checkCommand(command: string): SelfProtectionViolation | undefined {
+  const pieces = expandBraces(expandVariables(command)).split(COMMAND_SEPARATOR);
+  // Directories the current simple command may run in (undefined: the unknown start)
+  let dirs: Array<string | undefined> = [undefined];
+  // Directories outside the $(...), (...) or `...` being read
+  const outer: Array<Array<string | undefined>> = [];
+  let inBackticks = false;
+
+  for (let i = 0; i < pieces.length; i += 2) {
+    const segment = pieces[i];
+    for (const cwd of dirs) {
+      const violation = checkPathWords(segment, cwd) || checkCliCall(segment);
+      if (violation) return violation;
+    }
+
+    const next = dirs.map((cwd) => changedDirectory(segment, cwd));
+    const separator = pieces[i + 1];
+    dirs = separator === '&&' ? next : Array.from(new Set([...dirs, ...next]));
+    if (separator === '$(' || separator === '(' || (separator === '`' && !inBackticks)) {
+      outer.push(dirs);
+    } else if (separator === ')' || separator === '`') {
+      dirs = outer.pop() ?? dirs;
+    }
+    if (separator === '`') inBackticks = !inBackticks;
+  }
+  return undefined;
+}
+
+/**
+ * Check whether a tool call targets ClawBands' own files, the OpenClaw config
+ * or the plugin installation.
+ * @param toolName - OpenClaw tool name; reads are only allowed through the built-in read tools
+ * @returns the violation, or undefined if the call does not touch them
+ */
+export function checkSelfProtection(
+  toolName: string | undefined,
+  params: Record<string, unknown>
+): SelfProtectionViolation | undefined {
+  const target = extractPath(params);
+  if (target) {
+    const violation = checkPath(toolName, target);
+    if (violation) return violation;
+  }
+
+  const command = extractCommand(params);
+  if (command) {
+    return checkCommand(command);
+  }
+
+  return undefined;
+}
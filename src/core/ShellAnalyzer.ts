@@ -0,0 +1,628 @@
+/**
+ * ClawBands ShellAnalyzer
+ * Tokenizes shell commands and classifies each segment by risk
+ *
+ * The analyzer never runs anything: it splits a command line into simple
+ * commands (pipes, `&&`, `;`, subshells, `$(...)`, backticks, redirects) and
+ * classifies each of them from its name and arguments. Whatever it does not
+ * recognize is `unknown`, so "only read" conditions fail closed.
+ */
+
+import path from 'path';
+import { ShellRisk } from '../types';
+
+/** All risk categories, for validation and display */
+export const SHELL_RISKS: ShellRisk[] = [
+  'read',
+  'write',
+  'destructive',
+  'network',
+  'privilege',
+  'exec',
+  'pipe-to-shell',
+  'unknown',
+];
+
+export interface ShellSegment {
+  /** Command name and arguments, as parsed (quotes removed) */
+  words: string[];
+  risks: ShellRisk[];
+}
+
+export interface ShellAnalysis {
+  segments: ShellSegment[];
+  /** Union of the risks of all segments, in SHELL_RISKS order */
+  risks: ShellRisk[];
+  /** Set when the command could not be parsed (risks is then ["unknown"]) */
+  parseError?: string;
+}
+
+// -----------------------------------------------------------------------------
+// Command tables
+// -----------------------------------------------------------------------------
+
+/** Set of the whitespace-separated words of a list. */
+function words(list: string): Set<string> {
+  return new Set(list.trim().split(/\s+/));
+}
+
+const READ_COMMANDS = words(`
+  ls ll dir cat head tail less more grep egrep fgrep rg ag ack wc pwd echo printf which
+  whereis type whoami id groups date cal uname hostname uptime stat file du df tree diff
+  cmp comm sort uniq cut tr paste join column nl tac rev fold fmt od xxd hexdump strings
+  md5sum sha1sum sha256sum shasum cksum jq yq basename dirname realpath readlink true
+  false test [ [[ ps free lsof history locale printenv seq sleep cd pushd popd man help
+  tldr bat fd exa eza lsblk nproc arch tput clear
+`);
+
+const WRITE_COMMANDS = words(`
+  touch mkdir cp mv tee ln install tar zip unzip gzip gunzip bzip2 xz patch export unset
+  alias mktemp split csplit code vim vi nano emacs
+`);
+
+const DESTRUCTIVE_COMMANDS = words(`
+  rm rmdir shred dd truncate wipefs fdisk parted kill killall pkill shutdown reboot halt
+  poweroff unlink
+`);
+
+const NETWORK_COMMANDS = words(`
+  curl wget ssh scp sftp nc ncat netcat telnet ftp ping dig nslookup host whois http https
+  aria2c socat traceroute
+`);
+
+const PRIVILEGE_COMMANDS = words(`sudo doas su pkexec chroot setcap runuser`);
+
+const SHELLS = words(`sh bash zsh dash ksh fish csh tcsh`);
+
+const INTERPRETERS = words(`
+  python python2 python3 node nodejs perl ruby php lua deno bun Rscript osascript
+  powershell pwsh java go make npx
+`);
+
+/** Commands that run the command given as their arguments */
+const WRAPPERS = words(`
+  env nohup nice ionice time timeout stdbuf xargs watch command builtin exec caffeinate
+`);
+
+const GIT_READ = words(`
+  status log diff show rev-parse ls-files ls-tree blame describe shortlog reflog grep
+  cat-file config help version whatchanged
+`);
+const GIT_NETWORK = words(`clone fetch pull push ls-remote submodule`);
+
+const PACKAGE_MANAGERS = words(`
+  npm pnpm yarn pip pip3 gem cargo apt apt-get brew dnf yum pacman apk composer poetry uv
+`);
+const PACKAGE_READ = words(`ls list view info show outdated why help`);
+const PACKAGE_INSTALL = words(`install i add ci update upgrade up sync fetch publish search`);
+const PACKAGE_REMOVE = words(`uninstall remove rm un purge autoremove`);
+
+// -----------------------------------------------------------------------------
+// Tokenizer
+// -----------------------------------------------------------------------------
+
+type Token =
+  | { type: 'word'; value: string; substitutions: string[] }
+  | { type: 'op'; value: string }
+  | { type: 'redirect'; op: string; target: string; substitutions: string[] };
+
+/** Operators, longest first */
+const OPERATORS = ['&&', '||', '|&', ';;', '|', '&', ';', '\n', '(', ')'];
+
+/** Redirection at the current position: optional fd, then the operator */
+const REDIRECT = /^(\d*|&)(>>|>\||>&|<<<|<<-|<<|<>|>|<)/;
+
+const WORD_END = /[\s;&|()<>]/;
+
+class ShellParseError extends Error {}
+
+/**
+ * Index just past the `)` closing the `(` that precedes `start`,
+ * skipping quoted text and nested parentheses.
+ */
+function findClosingParen(input: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < input.length; i++) {
+    const c = input[i];
+    if (c === '\\') {
+      i++;
+    } else if (c === "'") {
+      i = input.indexOf("'", i + 1);
+      if (i < 0) break;
+    } else if (c === '"') {
+      i = findClosingQuote(input, i + 1);
+    } else if (c === '(') {
+      depth++;
+    } else if (c === ')' && --depth === 0) {
+      return i + 1;
+    }
+  }
+  throw new ShellParseError('unbalanced parentheses');
+}
+
+/** Index of the `"` closing a double-quoted string starting at `start`. */
+function findClosingQuote(input: string, start: number): number {
+  for (let i = start; i < input.length; i++) {
+    if (input[i] === '\\') {
+      i++;
+    } else if (input[i] === '"') {
+      return i;
+    }
+  }
+  throw new ShellParseError('unterminated double quote');
+}
+
+/**
+ * Read one word starting at `start`, resolving quotes and collecting the
+ * commands of `$(...)`, backticks and `<(...)` inside it.
+ */
+function readWord(
+  input: string,
+  start: number
+): { value: string; substitutions: string[]; end: number } {
+  let value = '';
+  const substitutions: string[] = [];
+  let i = start;
+
+  const readSubstitution = (): void => {
+    if (input.startsWith('$((', i)) {
+      // Arithmetic expansion, not a command
+      const end = findClosingParen(input, i + 3);
+      value += input.slice(i, end + 1);
+      i = end + 1;
+    } else if (input.startsWith('$(', i)) {
+      const end = findClosingParen(input, i + 2);
+      substitutions.push(input.slice(i + 2, end - 1));
+      value += '$(…)';
+      i = end;
+    } else {
+      const end = input.indexOf('`', i + 1);
+      if (end < 0) throw new ShellParseError('unterminated backtick');
+      substitutions.push(input.slice(i + 1, end));
+      value += '`…`';
+      i = end + 1;
+    }
+  };
+
+  while (i < input.length) {
+    const c = input[i];
+    if (c === '\\') {
+      value += input[i + 1] ?? '';
+      i += 2;
+    } else if (c === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end < 0) throw new ShellParseError('unterminated single quote');
+      value += input.slice(i + 1, end);
+      i = end + 1;
+    } else if (c === '"') {
+      i++;
+      while (input[i] !== '"') {
+        if (i >= input.length) throw new ShellParseError('unterminated double quote');
+        if (input[i] === '\\') {
+          // Inside double quotes, backslash only escapes $ ` " \ and newline
+          const next = input[i + 1] ?? '';
+          value += '$`"\\\n'.includes(next) ? next : '\\' + next;
+          i += 2;
+        } else if (input.startsWith('$(', i) || input[i] === '`') {
+          readSubstitution();
+        } else {
+          value += input[i++];
+        }
+      }
+      i++;
+    } else if (input.startsWith('$(', i) || c === '`') {
+      readSubstitution();
+    } else if ((c === '<' || c === '>') && input[i + 1] === '(' && value === '') {
+      // Process substitution: <(cmd) / >(cmd)
+      const end = findClosingParen(input, i + 2);
+      substitutions.push(input.slice(i + 2, end - 1));
+      value += `${c}(…)`;
+      i = end;
+    } else if (WORD_END.test(c)) {
+      break;
+    } else {
+      value += c;
+      i++;
+    }
+  }
+
+  return { value, substitutions, end: i };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const c = input[i];
+
+    if (c === ' ' || c === '\t' || c === '\r') {
+      i++;
+      continue;
+    }
+    if (c === '#' && (i === 0 || /\s/.test(input[i - 1]))) {
+      // Comment until end of line
+      while (i < input.length && input[i] !== '\n') i++;
+      continue;
+    }
+    if ((c === '<' || c === '>') && input[i + 1] === '(') {
+      const word = readWord(input, i);
+      tokens.push({ type: 'word', value: word.value, substitutions: word.substitutions });
+      i = word.end;
+      continue;
+    }
+
+    const redirect = REDIRECT.exec(input.slice(i));
+    if (redirect) {
+      i += redirect[0].length;
+      while (input[i] === ' ' || input[i] === '\t') i++;
+      const target = readWord(input, i);
+      tokens.push({
+        type: 'redirect',
+        op: redirect[0],
+        target: target.value,
+        substitutions: target.substitutions,
+      });
+      i = target.end;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => input.startsWith(candidate, i));
+    if (op) {
+      tokens.push({ type: 'op', value: op });
+      i += op.length;
+      continue;
+    }
+
+    const word = readWord(input, i);
+    tokens.push({ type: 'word', value: word.value, substitutions: word.substitutions });
+    i = word.end;
+  }
+
+  return tokens;
+}
+
+// -----------------------------------------------------------------------------
+// Classification
+// -----------------------------------------------------------------------------
+
+interface ParsedSegment {
+  words: string[];
+  redirects: Array<{ op: string; target: string }>;
+  substitutions: string[];
+}
+
+/** Split tokens into pipelines of simple commands. */
+function parse(tokens: Token[]): ParsedSegment[][] {
+  const pipelines: ParsedSegment[][] = [];
+  let pipeline: ParsedSegment[] = [];
+  let segment: ParsedSegment = { words: [], redirects: [], substitutions: [] };
+
+  const endSegment = (): void => {
+    if (segment.words.length > 0 || segment.redirects.length > 0) {
+      pipeline.push(segment);
+    }
+    segment = { words: [], redirects: [], substitutions: [] };
+  };
+  const endPipeline = (): void => {
+    endSegment();
+    if (pipeline.length > 0) pipelines.push(pipeline);
+    pipeline = [];
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'word') {
+      segment.words.push(token.value);
+      segment.substitutions.push(...token.substitutions);
+    } else if (token.type === 'redirect') {
+      segment.redirects.push({ op: token.op, target: token.target });
+      segment.substitutions.push(...token.substitutions);
+    } else if (token.value === '|' || token.value === '|&') {
+      endSegment();
+    } else {
+      endPipeline();
+    }
+  }
+  endPipeline();
+
+  return pipelines;
+}
+
+/** Arguments without leading options (`-x`, `--long`) */
+function positional(args: string[]): string[] {
+  return args.filter((arg) => !arg.startsWith('-'));
+}
+
+function hasFlag(args: string[], ...flags: string[]): boolean {
+  return args.some(
+    (arg) =>
+      flags.includes(arg) ||
+      // Combined short flags: -rf contains -r and -f
+      (/^-[a-zA-Z]+$/.test(arg) &&
+        flags.some((flag) => /^-[a-zA-Z]$/.test(flag) && arg.includes(flag[1])))
+  );
+}
+
+/** Like hasFlag, also matching long options given as `--name=value` */
+function hasOption(args: string[], ...flags: string[]): boolean {
+  return (
+    hasFlag(args, ...flags) ||
+    args.some((arg) => flags.some((flag) => flag.startsWith('--') && arg.startsWith(`${flag}=`)))
+  );
+}
+
+/** Strip the options of a wrapper (and the duration of `timeout`) before its command. */
+function wrappedCommand(name: string, args: string[]): string[] {
+  let i = 0;
+  while (
+    i < args.length &&
+    (args[i].startsWith('-') || (name === 'env' && /^\w+=/.test(args[i])))
+  ) {
+    // Options with a separate value
+    if (['-n', '-u', '-g', '-C', '-c', '-I', '-d', '-P', '-L', '-s', '-k'].includes(args[i])) i++;
+    i++;
+  }
+  if (name === 'timeout' && i < args.length) i++;
+  return args.slice(i);
+}
+
+function classifyGit(args: string[]): ShellRisk[] {
+  // Skip global options: git -C dir -c key=value <subcommand>
+  let i = 0;
+  let config = false;
+  while (i < args.length && args[i].startsWith('-')) {
+    // Configuration can name a program to run (core.pager, core.sshCommand, alias.*)
+    if (args[i] === '-c' || args[i].startsWith('--config-env')) config = true;
+    if (args[i] === '-C' || args[i] === '-c' || args[i] === '--config-env') i++;
+    i++;
+  }
+  const risks = classifyGitSubcommand(args.slice(i));
+  return config ? ['exec', ...risks] : risks;
+}
+
+function classifyGitSubcommand([subcommand, ...rest]: string[]): ShellRisk[] {
+  if (!subcommand) return ['read'];
+
+  if (
+    subcommand === 'push' &&
+    hasFlag(rest, '-f', '--force', '--force-with-lease', '--delete', '-d')
+  ) {
+    return ['network', 'destructive'];
+  }
+  if (GIT_NETWORK.has(subcommand)) {
+    return subcommand === 'push' || subcommand === 'ls-remote' ? ['network'] : ['network', 'write'];
+  }
+  if (
+    (subcommand === 'reset' && hasFlag(rest, '--hard')) ||
+    (subcommand === 'clean' && hasFlag(rest, '-f', '--force')) ||
+    (subcommand === 'branch' && hasFlag(rest, '-D', '--delete', '-d')) ||
+    (subcommand === 'stash' && ['drop', 'clear'].includes(rest[0])) ||
+    (subcommand === 'checkout' && rest.includes('--')) ||
+    subcommand === 'restore'
+  ) {
+    return ['destructive'];
+  }
+  if (GIT_READ.has(subcommand)) {
+    if (subcommand === 'config') return positional(rest).length > 1 ? ['write'] : ['read'];
+    // git diff --output=file, git log --output file
+    return hasOption(rest, '--output') ? ['write'] : ['read'];
+  }
+  if (
+    subcommand === 'branch' ||
+    subcommand === 'tag' ||
+    subcommand === 'remote' ||
+    subcommand === 'stash'
+  ) {
+    // Listing forms are read-only
+    return positional(rest).length === 0 || rest[0] === 'list' || rest[0] === 'show'
+      ? ['read']
+      : ['write'];
+  }
+  return ['write'];
+}
+
+function classifyPackageManager(args: string[]): ShellRisk[] {
+  const [subcommand = ''] = positional(args);
+  if (PACKAGE_READ.has(subcommand)) return ['read'];
+  if (PACKAGE_INSTALL.has(subcommand))
+    return subcommand === 'search' ? ['network'] : ['network', 'write', 'exec'];
+  if (PACKAGE_REMOVE.has(subcommand)) return ['write'];
+  // run / test / build / start ... execute project scripts
+  return ['exec'];
+}
+
+/**
+ * Classify a simple command from its words.
+ * @param analyze - Analyzer for nested command strings (sh -c, find -exec)
+ */
+function classifyWords(words: string[], analyze: (command: string) => ShellRisk[]): ShellRisk[] {
+  // Leading variable assignments: FOO=1 cmd
+  let start = 0;
+  while (start < words.length && /^[A-Za-z_]\w*=/.test(words[start])) start++;
+  if (start === words.length) return start > 0 ? ['write'] : [];
+
+  const name = path.basename(words[start]);
+  const args = words.slice(start + 1);
+
+  if (PRIVILEGE_COMMANDS.has(name)) {
+    if (name === 'su') {
+      return args.includes('-c') ? ['privilege', 'exec'] : ['privilege'];
+    }
+    if (name === 'setcap' || name === 'chroot') return ['privilege'];
+    const inner = wrappedCommand(name, args);
+    return inner.length > 0 ? ['privilege', ...classifyWords(inner, analyze)] : ['privilege'];
+  }
+
+  if (WRAPPERS.has(name)) {
+    const inner = wrappedCommand(name, args);
+    if (inner.length === 0) return name === 'env' || name === 'xargs' ? ['read'] : [];
+    return classifyWords(inner, analyze);
+  }
+
+  if (SHELLS.has(name)) {
+    const inline = args.indexOf('-c');
+    if (inline >= 0 && args[inline + 1] !== undefined) {
+      return analyze(args[inline + 1]);
+    }
+    // Script file or stdin
+    return ['exec'];
+  }
+
+  if (INTERPRETERS.has(name) || name === 'eval' || name === 'source' || name === '.') {
+    return ['exec'];
+  }
+
+  if (name === 'git') return classifyGit(args);
+  if (PACKAGE_MANAGERS.has(name)) return classifyPackageManager(args);
+
+  if (name === 'find') {
+    const risks: ShellRisk[] = ['read'];
+    if (args.includes('-delete')) risks.push('destructive');
+    if (args.some((arg) => ['-fprint', '-fprint0', '-fprintf', '-fls'].includes(arg))) {
+      risks.push('write');
+    }
+    const exec = args.findIndex((arg) => ['-exec', '-execdir', '-ok', '-okdir'].includes(arg));
+    if (exec >= 0) {
+      const inner = args
+        .slice(exec + 1)
+        .filter((arg) => arg !== ';' && arg !== '+' && arg !== '{}');
+      risks.push(...classifyWords(inner, analyze));
+    }
+    return risks;
+  }
+
+  if (name === 'sed') {
+    return args.some((arg) => arg === '--in-place' || /^-[a-zA-Z]*i/.test(arg))
+      ? ['write']
+      : ['read'];
+  }
+
+  if (name === 'awk' || name === 'gawk' || name === 'mawk') {
+    return args.some((arg) => /system\s*\(|\|\s*"|print\s*>/.test(arg)) ? ['exec'] : ['read'];
+  }
+
+  if (name === 'chmod') {
+    // setuid / setgid bits
+    return args.some((arg) => /[ug+]*\+s|^[2467]\d{3}$/.test(arg))
+      ? ['write', 'privilege']
+      : ['write'];
+  }
+  if (name === 'chown' || name === 'chgrp') return ['write'];
+
+  if (name === 'curl') {
+    const saves = hasOption(args, '-o', '-O', '--output', '--remote-name');
+    return saves ? ['network', 'write'] : ['network'];
+  }
+  if (name === 'wget') {
+    // wget saves to a file unless told to write to stdout
+    const toStdout =
+      args.some((arg, i) => (arg === '-O' || arg === '--output-document') && args[i + 1] === '-') ||
+      args.includes('-O-');
+    return toStdout ? ['network'] : ['network', 'write'];
+  }
+  if (name === 'rsync') {
+    const risks: ShellRisk[] = ['write'];
+    if (args.some((arg) => /^[^/]*:/.test(arg) && !arg.startsWith('-'))) risks.push('network');
+    if (args.some((arg) => arg.startsWith('--delete'))) risks.push('destructive');
+    return risks;
+  }
+  if (name === 'crontab')
+    return hasFlag(args, '-r') ? ['destructive'] : args.includes('-l') ? ['read'] : ['write'];
+  if (name === 'systemctl' || name === 'service') {
+    const [action = ''] = positional(args);
+    return [
+      'status',
+      'list-units',
+      'list-unit-files',
+      'is-active',
+      'is-enabled',
+      'show',
+      'cat',
+    ].includes(action)
+      ? ['read']
+      : ['write'];
+  }
+
+  if (name === 'sort') return hasOption(args, '-o', '--output') ? ['write'] : ['read'];
+
+  if (/^mkfs(\.|$)/.test(name)) return ['destructive'];
+  if (READ_COMMANDS.has(name)) return ['read'];
+  if (WRITE_COMMANDS.has(name)) return ['write'];
+  if (DESTRUCTIVE_COMMANDS.has(name)) return ['destructive'];
+  if (NETWORK_COMMANDS.has(name))
+    return name === 'scp' || name === 'sftp' ? ['network', 'write'] : ['network'];
+
+  // ./script.sh, bin/tool, ...
+  if (words[start].includes('/')) return ['exec'];
+  return ['unknown'];
+}
+
+/** Output redirections that write to a file (not /dev/null or another fd). */
+function writesFile(redirect: { op: string; target: string }): boolean {
+  if (!redirect.op.includes('>')) return false;
+  if (redirect.op.endsWith('>&') || redirect.target.startsWith('&')) return false;
+  return (
+    redirect.target !== '/dev/null' &&
+    redirect.target !== '/dev/stdout' &&
+    redirect.target !== '/dev/stderr'
+  );
+}
+
+/** Name of the command actually run, past assignments, sudo and wrappers. */
+function commandName(words: string[]): string | undefined {
+  let start = 0;
+  while (start < words.length && /^[A-Za-z_]\w*=/.test(words[start])) start++;
+  if (start === words.length) return undefined;
+  const name = path.basename(words[start]);
+  if ((PRIVILEGE_COMMANDS.has(name) && name !== 'su') || WRAPPERS.has(name)) {
+    return commandName(wrappedCommand(name, words.slice(start + 1)));
+  }
+  return name;
+}
+
+function isShellOrInterpreter(words: string[]): boolean {
+  const name = commandName(words);
+  return name !== undefined && (SHELLS.has(name) || INTERPRETERS.has(name));
+}
+
+function unique(risks: ShellRisk[]): ShellRisk[] {
+  return SHELL_RISKS.filter((risk) => risks.includes(risk));
+}
+
+/**
+ * Tokenize a shell command and classify each of its simple commands.
+ */
+export function analyzeShellCommand(command: string): ShellAnalysis {
+  let pipelines: ParsedSegment[][];
+  try {
+    pipelines = parse(tokenize(command));
+  } catch (error) {
+    if (!(error instanceof ShellParseError)) throw error;
+    return { segments: [], risks: ['unknown'], parseError: error.message };
+  }
+
+  const nested = (inner: string): ShellRisk[] => analyzeShellCommand(inner).risks;
+  const segments: ShellSegment[] = [];
+
+  for (const pipeline of pipelines) {
+    let networkUpstream = false;
+    for (const parsed of pipeline) {
+      const risks = classifyWords(parsed.words, nested);
+      if (parsed.redirects.some(writesFile)) risks.push('write');
+
+      const substituted = parsed.substitutions.flatMap(nested);
+      risks.push(...substituted);
+
+      // curl … | sh, or sh/bash/python fed by $(curl …) / <(curl …)
+      const runsCode = isShellOrInterpreter(parsed.words);
+      if (runsCode && (networkUpstream || substituted.includes('network'))) {
+        risks.push('pipe-to-shell');
+      }
+      if (risks.includes('network')) networkUpstream = true;
+
+      segments.push({ words: parsed.words, risks: unique(risks) });
+    }
+  }
+
+  return { segments, risks: unique(segments.flatMap((segment) => segment.risks)) };
+}
@@ -5,23 +5,111 @@
 
 // Core Components
 export { Interceptor } from './core/Interceptor';
-export { Arbitrator } from './core/Arbitrator';
-export { approvalQueue } from './core/ApprovalQueue';
+export { Arbitrator, Judgement } from './core/Arbitrator';
+export {
+  approvalQueue,
+  fingerprintArgs,
+  describeQuorum,
+  countApprovals,
+  approverName,
+  ApprovalEntry,
+  ApprovalDetails,
+  ApprovalHooks,
+  RequestTimeout,
+  WaitOutcome,
+  AnsweredVia,
+  CodeRejection,
+  CodeCheck,
+} from './core/ApprovalQueue';
 export { logger, LOG_PATH, CLAWBANDS_DATA_DIR } from './core/Logger';
+export { resolveRule, ResolvedRule, RuleSource, WILDCARD_METHOD } from './core/RuleResolver';
+export { matchingOverlays, parseSessionKey, SessionKeyParts } from './core/OverlayMatcher';
+export { diffPolicies, auditChanges, summarizeChanges, PolicyChange } from './core/PolicyDiff';
+export { checkSelfProtection, SelfProtectionViolation } from './core/SelfProtection';
+export { Redactor, redactor, BUILTIN_DETECTORS, Detector } from './core/Redactor';
+export { applyRewrite, RewriteResult } from './core/ParamRewriter';
+export {
+  RateLimiter,
+  rateLimiter,
+  RateLimitStatus,
+  parseDuration,
+  formatDuration,
+} from './core/RateLimiter';
+export { matchesSchedule, localTime, describeSchedule, LocalTime } from './core/Schedule';
+export { checkExfiltration, shannonEntropy, ExfilFinding, ExfilReport } from './core/ExfilGuard';
+export {
+  Notifier,
+  notifier,
+  describeEvent,
+  NotificationEvent,
+  NotifyOptions,
+} from './core/Notifier';
+export {
+  CallbackLinks,
+  callbackLinks,
+  CallbackAnswer,
+  CallbackRejection,
+  CallbackCheck,
+  CallbackUrls,
+} from './core/CallbackLinks';
+export {
+  analyzeShellCommand,
+  SHELL_RISKS,
+  ShellAnalysis,
+  ShellSegment,
+} from './core/ShellAnalyzer';
 
 // Storage
-export { PolicyStore, PersistedPolicy } from './storage/PolicyStore';
-export { DecisionLog, DecisionRecord } from './storage/DecisionLog';
+export { PolicyStore, PersistedPolicy, PolicyCheck } from './storage/PolicyStore';
+export {
+  validatePolicy,
+  validateRuleMatch,
+  formatIssues,
+  ValidationIssue,
+} from './storage/PolicyValidator';
+export { migratePolicy, CURRENT_POLICY_VERSION, PolicyMigration } from './storage/PolicyMigrations';
+export {
+  DecisionLog,
+  DecisionRecord,
+  RuleProvenance,
+  ExfiltrationRecord,
+  RewriteRecord,
+  RateLimitRecord,
+  AuditEvent,
+  AuditEventType,
+  AuditEntry,
+} from './storage/DecisionLog';
+export {
+  verifyChain,
+  createAuditKey,
+  VerifyReport,
+  VerifyIssue,
+  Checkpoint,
+  ChainFields,
+} from './storage/AuditChain';
 export { StatsTracker, Stats } from './storage/StatsTracker';
+export { GrantStore, Grant, GrantScope, GrantInput, GrantedCall } from './storage/GrantStore';
 
 // Plugin
 export { default as ClawBandsPlugin, ClawBandsConfig } from './plugin/index';
 export {
   createToolCallHook,
   getToolMapping,
+  mapTool,
   getProtectedModules,
   CLAWBANDS_RESPOND_TOOL,
+  UNKNOWN_MODULE,
 } from './plugin/tool-interceptor';
+export { watchPolicy, reloadPolicy } from './plugin/policy-watcher';
+export {
+  startControlSocket,
+  sendControlRequest,
+  CONTROL_SOCKET_PATH,
+  ControlRequest,
+  ControlResponse,
+  PendingApproval,
+} from './plugin/control-socket';
+export { startCallbackServer } from './plugin/callback-server';
 
 export {
   isOpenClawInstalled,
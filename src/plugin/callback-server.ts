@@ -0,0 +1,227 @@
+/**
+ * ClawBands Callback Server
+ * Local HTTP server answering the approve/deny links carried by notifications
+ *
+ * A link (`/callback/<token>`, see core/CallbackLinks) names one pending
+ * approval and one answer. Opening it shows what is being approved; only the
+ * button on that page (a POST) answers, so chat apps that fetch links for a
+ * preview cannot approve anything. Tokens are signed, expire with the request
+ * and work once. Every answer and every refused token is audited with the
+ * client's address. A link made out to an approver (rule `approvers`) casts
+ * that approver's vote.
+ *
+ * Off by default; binds to 127.0.0.1 unless the policy says otherwise.
+ */
+
+import http from 'http';
+import {
+  approvalQueue,
+  ApprovalEntry,
+  countApprovals,
+  describeQuorum,
+} from '../core/ApprovalQueue';
+import { CallbackCheck, callbackLinks, CallbackRejection } from '../core/CallbackLinks';
+import { logger } from '../core/Logger';
+import { redactor } from '../core/Redactor';
+import { DecisionLog } from '../storage/DecisionLog';
+import { CallbackConfig } from '../types';
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 8787;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+/** What the page says when a token is refused */
+const REJECTIONS: Record<CallbackRejection | 'answered', string> = {
+  invalid: 'This link is not valid.',
+  expired: 'This link has expired.',
+  replay: 'This link has already been used.',
+  answered: 'This request has already been answered or has expired.',
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] ?? char
+  );
+}
+
+function page(title: string, body: string): string {
+  return (
+    `<!doctype html><html><head><meta charset="utf-8">` +
+    `<meta name="viewport" content="width=device-width, initial-scale=1">` +
+    `<meta name="robots" content="noindex"><title>ClawBands: ${escapeHtml(title)}</title></head>` +
+    `<body style="font-family: sans-serif; max-width: 40em; margin: 2em auto; padding: 0 1em">` +
+    `<h1>🦞 ${escapeHtml(title)}</h1>${body}</body></html>`
+  );
+}
+
+function send(res: http.ServerResponse, status: number, title: string, body: string = ''): void {
+  res.writeHead(status, {
+    'content-type': 'text/html; charset=utf-8',
+    'cache-control': 'no-store',
+    'referrer-policy': 'no-referrer',
+    'x-frame-options': 'DENY',
+  });
+  res.end(page(title, body));
+}
+
+function findPending(correlationId: string): ApprovalEntry | undefined {
+  return approvalQueue.listPending().find((e) => e.correlationId === correlationId);
+}
+
+/** Who answered, as recorded in the audit trail */
+function client(req: http.IncomingMessage): { remoteAddress?: string; userAgent?: string } {
+  return { remoteAddress: req.socket.remoteAddress, userAgent: req.headers['user-agent'] };
+}
+
+/** GET: show the request and a button that answers it (the token is not used up) */
+function confirm(res: http.ServerResponse, token: string, check: CallbackCheck): void {
+  if (!check.ok) return send(res, check.reason === 'invalid' ? 403 : 410, REJECTIONS[check.reason]);
+  const entry = findPending(check.correlationId);
+  if (!entry) return send(res, 410, REJECTIONS.answered);
+
+  const approve = check.answer === 'approve';
+  const args = entry.args && JSON.stringify(redactor.redact(entry.args), null, 2);
+  send(
+    res,
+    200,
+    `${approve ? 'Approve' : 'Deny'} ${entry.moduleName}.${entry.methodName}?`,
+    (entry.risk ? `<p>${escapeHtml(redactor.redactString(entry.risk))}</p>` : '') +
+      (args ? `<pre>${escapeHtml(args)}</pre>` : '') +
+      `<p>Session: ${escapeHtml(entry.sessionKey || '(none)')}</p>` +
+      (entry.quorum
+        ? `<p>Needs ${escapeHtml(describeQuorum(entry.quorum))} to approve; ` +
+          `you answer as ${escapeHtml(check.approver ?? '')}.</p>`
+        : '') +
+      `<form method="post" action="${escapeHtml(token)}">` +
+      `<button type="submit" style="font-size: 1.2em">${approve ? '✅ Approve' : '✗ Deny'}</button>` +
+      `</form>`
+  );
+}
+
+/** POST: use up the token and answer the request */
+async function answer(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  check: CallbackCheck
+): Promise<void> {
+  const who = client(req);
+  const entry = check.ok ? findPending(check.correlationId) : undefined;
+  if (!check.ok || !entry) {
+    const reason = check.ok ? 'answered' : check.reason;
+    logger.warn(`[callback-server] Refused callback (${reason})`, who);
+    await DecisionLog.appendEvent('CALLBACK_REJECTED', {
+      reason,
+      correlationId: check.ok ? check.correlationId : undefined,
+      ...who,
+    });
+    return send(res, reason === 'invalid' ? 403 : 410, REJECTIONS[reason]);
+  }
+
+  const answeredBy = check.approver ?? `callback ${who.remoteAddress ?? 'unknown'}`;
+  const approve = check.answer === 'approve';
+  try {
+    if (approve) {
+      approvalQueue.approveById(entry.correlationId, answeredBy, 'callback');
+    } else {
+      approvalQueue.denyById(entry.correlationId, answeredBy, 'callback');
+    }
+  } catch (error) {
+    // An approver's vote that does not count (already cast)
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`[callback-server] Refused callback (not-counted)`, { ...who, message });
+    await DecisionLog.appendEvent('CALLBACK_REJECTED', {
+      reason: 'not-counted',
+      correlationId: entry.correlationId,
+      approver: check.approver,
+      ...who,
+    });
+    return send(res, 409, 'Vote not counted', `<p>${escapeHtml(message)}.</p>`);
+  }
+  await DecisionLog.appendEvent('CALLBACK_ANSWERED', {
+    correlationId: entry.correlationId,
+    action: `${entry.moduleName}.${entry.methodName}`,
+    answer: check.answer,
+    approver: check.approver,
+    votes: entry.votes,
+    sessionKey: entry.sessionKey || undefined,
+    ...who,
+  });
+  if (entry.status === 'pending') {
+    return send(
+      res,
+      200,
+      `Vote recorded for ${entry.moduleName}.${entry.methodName}`,
+      `<p>${countApprovals(entry)} of ${entry.quorum!.required} approvals so far ` +
+        `(${escapeHtml(describeQuorum(entry.quorum!))}).</p>`
+    );
+  }
+  send(
+    res,
+    200,
+    `${approve ? 'Approved' : 'Denied'} ${entry.moduleName}.${entry.methodName}`,
+    approve
+      ? '<p>A held call runs now; otherwise it runs when the agent retries it.</p>'
+      : '<p>The call will not run.</p>'
+  );
+}
+
+async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const match = /^\/callback\/([A-Za-z0-9_-]+\.[A-Za-z0-9_-]+)$/.exec(
+    new URL(req.url ?? '/', 'http://localhost').pathname
+  );
+  if (!match) return send(res, 404, 'Not found');
+  const token = match[1];
+
+  if (req.method === 'GET') return confirm(res, token, callbackLinks.verify(token, true));
+  if (req.method === 'POST') return answer(req, res, callbackLinks.verify(token));
+  res.setHeader('allow', 'GET, POST');
+  send(res, 405, 'Method not allowed');
+}
+
+/**
+ * Start the callback server when the policy enables it, and hand out links
+ * once it listens. Returns a function that stops it.
+ */
+export function startCallbackServer(config: CallbackConfig = {}): () => void {
+  if (!config.enabled) return () => undefined;
+
+  const host = config.host ?? DEFAULT_HOST;
+  const port = config.port ?? DEFAULT_PORT;
+  if (!LOOPBACK_HOSTS.includes(host)) {
+    logger.warn(`[callback-server] Listening on ${host}: approval links work from other machines`);
+  }
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch((error: unknown) => {
+      logger.error('[callback-server] Request failed', { error });
+      if (!res.headersSent) send(res, 500, 'Something went wrong');
+    });
+  });
+
+  server.on('error', (error) => {
+    callbackLinks.setBaseUrl(undefined);
+    logger.warn('[callback-server] Unavailable — notifications carry no approval links', {
+      error,
+    });
+  });
+
+  server.listen(port, host, () => {
+    const address = server.address();
+    const actualPort = typeof address === 'object' && address ? address.port : port;
+    const urlHost = host.includes(':') ? `[${host}]` : host;
+    const baseUrl = config.baseUrl ?? `http://${urlHost}:${actualPort}`;
+    callbackLinks.setBaseUrl(baseUrl);
+    logger.info('[callback-server] Listening', { host, port: actualPort, baseUrl });
+  });
+
+  // Never keep the gateway process alive just for the server
+  server.unref();
+
+  return () => {
+    callbackLinks.setBaseUrl(undefined);
+    server.close();
+  };
+}
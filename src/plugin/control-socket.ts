@@ -0,0 +1,263 @@
+/**
+ * ClawBands Control Socket
+ * Local Unix socket (~/.openclaw/clawbands/control.sock) for answering approvals out-of-band
+ *
+ * The approval queue lives inside the gateway process. The plugin listens on
+ * this socket so `clawbands pending|approve|deny`, run by the human in another
+ * terminal, can list and answer pending entries without going through the
+ * agent. The socket is only accessible to the user running the gateway (0600).
+ *
+ * Protocol: one JSON request line, answered with one JSON response line.
+ */
+
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import fs from 'fs';
+import { ApprovalEntry, approvalQueue } from '../core/ApprovalQueue';
+import { ApprovalVote, ApproverQuorum } from '../types';
+import { CLAWBANDS_DATA_DIR, logger } from '../core/Logger';
+import { redactor } from '../core/Redactor';
+import { DecisionLog } from '../storage/DecisionLog';
+
+export const CONTROL_SOCKET_PATH = path.join(CLAWBANDS_DATA_DIR, 'control.sock');
+
+/** How long the CLI waits for the gateway to answer */
+const REQUEST_TIMEOUT_MS = 5000;
+
+/** Requests are a few bytes; anything longer is dropped */
+const MAX_REQUEST_BYTES = 64 * 1024;
+
+export type ControlRequest =
+  | { command: 'pending' }
+  | { command: 'approve'; id: string }
+  | { command: 'deny'; id: string };
+
+/** A pending approval as shown to the CLI (arguments redacted) */
+export interface PendingApproval {
+  id: string;
+  sessionKey: string;
+  moduleName: string;
+  methodName: string;
+  args?: unknown[];
+  risk?: string;
+  /** One-time code to give the agent for clawbands_respond (channel requests) */
+  code?: string;
+  /** One-time code for an ALLOW answer instead */
+  allowCode?: string;
+  /** 'pending' after a vote that did not yet meet the quorum */
+  status: ApprovalEntry['status'];
+  /** Approvers the rule requires, and their answers so far (multi-party approval) */
+  quorum?: ApproverQuorum;
+  votes?: ApprovalVote[];
+  /** Nobody answered in time and the request was escalated */
+  escalated?: boolean;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ControlResponse {
+  ok: boolean;
+  error?: string;
+  pending?: PendingApproval[];
+  /** Entry answered by approve/deny */
+  answered?: PendingApproval;
+}
+
+function toPending(entry: ApprovalEntry): PendingApproval {
+  return {
+    id: entry.correlationId,
+    sessionKey: entry.sessionKey,
+    moduleName: entry.moduleName,
+    methodName: entry.methodName,
+    args: entry.args && (redactor.redact(entry.args) as unknown[]),
+    risk: entry.risk && redactor.redactString(entry.risk),
+    code: entry.code,
+    allowCode: entry.allowCode,
+    status: entry.status,
+    quorum: entry.quorum,
+    votes: entry.votes,
+    escalated: entry.escalated,
+    createdAt: new Date(entry.createdAt).toISOString(),
+    expiresAt: new Date(entry.expiresAt).toISOString(),
+  };
+}
+
+/** The socket is owner-only, so whoever connects is the gateway's own user */
+function localUser(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || 'local';
+  }
+}
+
+async function handleRequest(request: ControlRequest): Promise<ControlResponse> {
+  switch (request.command) {
+    case 'pending':
+      return { ok: true, pending: approvalQueue.listPending().map(toPending) };
+
+    case 'approve': {
+      const entry = approvalQueue.approveById(String(request.id), localUser());
+      if (!entry) return { ok: false, error: `No pending approval with id "${request.id}"` };
+      return { ok: true, answered: toPending(entry) };
+    }
+
+    case 'deny': {
+      const answeredBy = localUser();
+      const entry = approvalQueue.denyById(String(request.id), answeredBy);
+      if (!entry) return { ok: false, error: `No pending approval with id "${request.id}"` };
+      // Block-and-retry: no retry follows a denial, so this is its trace in the audit trail
+      await DecisionLog.appendEvent('APPROVAL_DENIED', {
+        correlationId: entry.correlationId,
+        action: `${entry.moduleName}.${entry.methodName}`,
+        sessionKey: entry.sessionKey,
+        deniedBy: answeredBy,
+        votes: entry.votes,
+      });
+      return { ok: true, answered: toPending(entry) };
+    }
+
+    default:
+      return { ok: false, error: 'Unknown command' };
+  }
+}
+
+function serve(socket: net.Socket): void {
+  let buffer = '';
+  socket.setEncoding('utf-8');
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    const newline = buffer.indexOf('\n');
+    if (newline === -1) {
+      if (buffer.length > MAX_REQUEST_BYTES) socket.destroy();
+      return;
+    }
+
+    const line = buffer.slice(0, newline);
+    let reply: Promise<ControlResponse>;
+    try {
+      reply = handleRequest(JSON.parse(line) as ControlRequest);
+    } catch {
+      reply = Promise.resolve({ ok: false, error: 'Malformed request' });
+    }
+    reply
+      .catch((error: unknown) => ({
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      }))
+      .then((response) => socket.end(`${JSON.stringify(response)}\n`));
+  });
+  socket.on('error', (error) => {
+    logger.debug('[control-socket] Client error', { error });
+  });
+}
+
+/**
+ * Listen on the control socket. A stale socket file left by a crashed gateway
+ * is replaced; one held by a running gateway is left alone. `onListening` is
+ * called once the socket accepts requests.
+ * Returns a function that stops listening.
+ */
+export function startControlSocket(onListening?: () => void): () => void {
+  const server = net.createServer(serve);
+
+  const listen = (): void => {
+    // Create the socket owner-only (0600) from the start: a chmod after listen
+    // would leave a window in which other users could connect. The socket is
+    // bound synchronously, so the umask is restored before anything else runs.
+    const umask = process.umask(0o177);
+    try {
+      server.listen(CONTROL_SOCKET_PATH, () => {
+        logger.info('[control-socket] Listening', { path: CONTROL_SOCKET_PATH });
+        onListening?.();
+      });
+    } finally {
+      process.umask(umask);
+    }
+  };
+
+  server.on('error', (error: NodeJS.ErrnoException) => {
+    if (error.code !== 'EADDRINUSE') {
+      logger.warn('[control-socket] Unavailable — out-of-band approvals disabled', { error });
+      return;
+    }
+    const probe = net.connect(CONTROL_SOCKET_PATH);
+    probe.on('connect', () => {
+      probe.destroy();
+      logger.warn('[control-socket] Socket in use by another gateway — not listening', {
+        path: CONTROL_SOCKET_PATH,
+      });
+    });
+    probe.on('error', () => {
+      try {
+        fs.unlinkSync(CONTROL_SOCKET_PATH);
+        listen();
+      } catch (unlinkError) {
+        logger.warn('[control-socket] Could not replace stale socket', { error: unlinkError });
+      }
+    });
+  });
+
+  try {
+    fs.mkdirSync(CLAWBANDS_DATA_DIR, { recursive: true });
+  } catch {
+    // listen() reports the failure
+  }
+  listen();
+
+  // Never keep the gateway process alive just for the socket
+  server.unref();
+
+  const removeSocket = (): void => {
+    // Only our own socket: another gateway's stays in place
+    if (!server.listening) return;
+    try {
+      fs.unlinkSync(CONTROL_SOCKET_PATH);
+    } catch {
+      // Already gone
+    }
+  };
+  process.once('exit', removeSocket);
+
+  return () => {
+    process.removeListener('exit', removeSocket);
+    server.close();
+  };
+}
+
+/**
+ * Send one request to the running gateway (CLI side).
+ */
+export function sendControlRequest(request: ControlRequest): Promise<ControlResponse> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect(CONTROL_SOCKET_PATH);
+    let buffer = '';
+
+    socket.setEncoding('utf-8');
+    socket.setTimeout(REQUEST_TIMEOUT_MS, () => {
+      socket.destroy();
+      reject(new Error('The gateway did not answer in time'));
+    });
+    socket.on('connect', () => socket.write(`${JSON.stringify(request)}\n`));
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+    });
+    socket.on('end', () => {
+      try {
+        resolve(JSON.parse(buffer) as ControlResponse);
+      } catch {
+        reject(new Error('Malformed response from the gateway'));
+      }
+    });
+    socket.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED') {
+        reject(
+          new Error(`The gateway is not running (no control socket at ${CONTROL_SOCKET_PATH})`)
+        );
+      } else {
+        reject(error);
+      }
+    });
+  });
+}
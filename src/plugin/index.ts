@@ -7,12 +7,19 @@
  *
  * Hooks:
  *  before_tool_call → api.on() (tool interception)
+ *
+ * policy.json is watched and hot-reloaded into the Interceptor.
+ * control.sock lets the CLI list and answer pending approvals.
+ * The callback server (policy `callbacks`) answers approve/deny links.
  */
 
 import { Interceptor } from '../core/Interceptor';
 import { PolicyStore } from '../storage/PolicyStore';
 import { logger } from '../core/Logger';
 import { createToolCallHook, CLAWBANDS_RESPOND_TOOL } from './tool-interceptor';
+import { watchPolicy } from './policy-watcher';
+import { startControlSocket } from './control-socket';
+import { startCallbackServer } from './callback-server';
 
 export interface ClawBandsConfig {
   enabled?: boolean;
@@ -52,7 +59,24 @@ function tryRegisterTool(api: OpenClawPluginApi): boolean {
           decision: {
             type: 'string',
             enum: ['yes', 'no', 'allow'],
-            description: 'The user decision: "yes" to approve once, "no" to deny, "allow" to auto-approve for 15 minutes.',
+            description: 'The user decision: "yes" to approve once, "no" to deny, "allow" to auto-approve (see duration).',
+          },
+          duration: {
+            type: 'string',
+            description: 'For "allow": how long, as the user said it, e.g. "15m", "1h", "1d", or "session" for the rest of this session. Default "15m".',
+          },
+          scope: {
+            type: 'string',
+            enum: ['session', 'agent', 'global'],
+            description: 'For "allow": who the grant covers. Default "session"; only widen it when the user asked to (the user then confirms it in a terminal).',
+          },
+          code: {
+            type: 'string',
+            description: 'The approval code the user sent with their answer (required for "yes" and "allow" unless codes are off). Never guess it.',
+          },
+          match: {
+            type: 'object',
+            description: 'For "allow": optional argument constraint, same fields as a policy condition match (e.g. { "commandPrefix": "git status" }).',
           },
         },
         required: ['decision'],
@@ -109,6 +133,17 @@ export default {
 
       const interceptor = new Interceptor(policy);
 
+      // Pick up `clawbands policy` edits without restarting the gateway
+      watchPolicy(interceptor);
+
+      // Let `clawbands pending|approve|deny` answer approvals from a terminal
+      startControlSocket(() => {
+        interceptor.controlSocketAvailable = true;
+      });
+
+      // Let approve/deny links in notifications answer approvals
+      startCallbackServer(policy.callbacks);
+
       // -----------------------------------------------------------------------
       // Hook: before_tool_call — tool interception
       // -----------------------------------------------------------------------
@@ -0,0 +1,98 @@
+/**
+ * ClawBands Policy Watcher
+ * Hot-reloads policy.json into the running Interceptor (no `openclaw restart` needed)
+ */
+
+import { watch, readFileSync, existsSync, FSWatcher } from 'fs';
+import path from 'path';
+import { Interceptor } from '../core/Interceptor';
+import { PolicyStore, PersistedPolicy } from '../storage/PolicyStore';
+import { DecisionLog } from '../storage/DecisionLog';
+import { auditChanges, diffPolicies, summarizeChanges } from '../core/PolicyDiff';
+import { logger } from '../core/Logger';
+
+/** Editors and PolicyStore.save() emit bursts of events; wait for the file to settle. */
+const DEBOUNCE_MS = 200;
+
+/**
+ * Reload policy.json into the interceptor once.
+ * Invalid content is rejected and the last good policy stays active.
+ * Returns true if a new policy was swapped in.
+ */
+export async function reloadPolicy(interceptor: Interceptor): Promise<boolean> {
+  const policyPath = PolicyStore.getPath();
+
+  if (!existsSync(policyPath)) {
+    logger.warn('[policy-watcher] policy.json removed — keeping last good policy', {
+      path: policyPath,
+    });
+    return false;
+  }
+
+  let next: PersistedPolicy;
+  try {
+    next = PolicyStore.parse(readFileSync(policyPath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error('[policy-watcher] Invalid policy.json — keeping last good policy', {
+      error: message,
+    });
+    await DecisionLog.appendEvent('POLICY_RELOAD_FAILED', { path: policyPath, error: message });
+    return false;
+  }
+
+  const changes = diffPolicies(interceptor.getPolicy(), next);
+  if (changes.length === 0) {
+    logger.debug('[policy-watcher] policy.json touched, no rule changes');
+    return false;
+  }
+
+  interceptor.setPolicy(next);
+  const summary = summarizeChanges(changes);
+  logger.info(`[policy-watcher] Policy reloaded: ${summary}`);
+  await DecisionLog.appendEvent('POLICY_RELOADED', {
+    path: policyPath,
+    summary,
+    changes: auditChanges(changes),
+  });
+  return true;
+}
+
+/**
+ * Watch policy.json and hot-reload it into the interceptor.
+ * The data directory is watched (not the file) so atomic write-then-rename
+ * saves are picked up. Returns a function that stops watching.
+ */
+export function watchPolicy(interceptor: Interceptor): () => void {
+  const policyPath = PolicyStore.getPath();
+  const fileName = path.basename(policyPath);
+  let timer: NodeJS.Timeout | undefined;
+  let watcher: FSWatcher;
+
+  try {
+    watcher = watch(path.dirname(policyPath), (_event, changed) => {
+      if (changed && changed.toString() !== fileName) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        reloadPolicy(interceptor).catch((error) => {
+          logger.error('[policy-watcher] Reload failed', { error });
+        });
+      }, DEBOUNCE_MS);
+    });
+  } catch (error) {
+    logger.warn('[policy-watcher] fs.watch unavailable — policy hot-reload disabled', { error });
+    return () => {};
+  }
+
+  // Never keep the gateway process alive just for the watcher
+  watcher.unref();
+  watcher.on('error', (error) => {
+    logger.warn('[policy-watcher] Watcher error — policy hot-reload disabled', { error });
+  });
+  logger.info('[policy-watcher] Watching policy for changes', { path: policyPath });
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    watcher.close();
+  };
+}
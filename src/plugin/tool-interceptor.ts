@@ -4,8 +4,21 @@
  */
 
 import { Interceptor } from '../core/Interceptor';
-import { approvalQueue } from '../core/ApprovalQueue';
+import {
+  ApprovalEntry,
+  approvalQueue,
+  CodeDecision,
+  CodeRejection,
+  countApprovals,
+  describeQuorum,
+} from '../core/ApprovalQueue';
 import { logger } from '../core/Logger';
+import { parseSessionKey } from '../core/OverlayMatcher';
+import { formatDuration, parseDuration } from '../core/RateLimiter';
+import { DecisionLog } from '../storage/DecisionLog';
+import { GrantScope, GrantStore } from '../storage/GrantStore';
+import { formatIssues, validateRuleMatch } from '../storage/PolicyValidator';
+import { ApprovalConfig, RuleMatch, ToolMapping } from '../types';
 
 /**
  * Tool name for the custom clawbands_respond tool.
@@ -13,6 +26,9 @@ import { logger } from '../core/Logger';
  */
 export const CLAWBANDS_RESPOND_TOOL = 'clawbands_respond';
 
+/** Module assigned to tools that no mapping covers. */
+export const UNKNOWN_MODULE = 'Unknown';
+
 /**
  * Mapping from flat OpenClaw tool names to ClawBands module/method pairs.
  * OpenClaw exposes tools as flat names (e.g. "bash", "read"), while
@@ -74,7 +90,8 @@ export interface BeforeToolCallResult {
  * Create a handler for the typed `before_tool_call` plugin hook.
  * Register with `api.on('before_tool_call', handler)`.
  *
- * Returns { block, blockReason } to deny, or {} to allow passthrough.
+ * Returns { block, blockReason } to deny, { params } to allow with params
+ * rewritten by the policy, or {} to allow passthrough.
  */
 export function createToolCallHook(
   interceptor: Interceptor
@@ -84,16 +101,20 @@ export function createToolCallHook(
 
     // Intercept our own control tool before any policy evaluation
     if (toolName === CLAWBANDS_RESPOND_TOOL) {
-      return handleRespondTool(params, ctx);
+      return handleRespondTool(params, ctx, interceptor.getPolicy().approval);
     }
 
-    const mapping = TOOL_TO_MODULE[toolName.toLowerCase()];
-    const moduleName = mapping?.module ?? 'Unknown';
-    const methodName = mapping?.method ?? toolName;
+    const { module: moduleName, method: methodName } = mapTool(
+      toolName,
+      interceptor.getPolicy().tools
+    );
 
     try {
-      await interceptor.evaluate(moduleName, methodName, [params], ctx.sessionKey);
-      return {};
+      const rewritten = await interceptor.evaluate(moduleName, methodName, [params], ctx.sessionKey, {
+        agentId: ctx.agentId,
+        toolName,
+      });
+      return rewritten ? { params: rewritten } : {};
     } catch (err: unknown) {
       const reason =
         err instanceof Error
@@ -105,32 +126,158 @@ export function createToolCallHook(
   };
 }
 
+/** How long an ALLOW lasts when the user did not say, and the longest the chat grants alone */
+const DEFAULT_GRANT_DURATION = '15m';
+
+/** How long a "session" ALLOW lasts: session keys outlive conversations (1 day) */
+const SESSION_GRANT_MS = 24 * 60 * 60 * 1000;
+
+const GRANT_SCOPES: GrantScope[] = ['session', 'agent', 'global'];
+
+/** What the agent is told when clawbands_respond's approval code is rejected */
+const CODE_REJECTIONS: Record<CodeRejection, string> = {
+  missing: 'Not approved: the approval code is missing. Ask the user for it and pass it as `code`.',
+  mismatch: 'Not approved: wrong approval code. Ask the user for the exact code.',
+  decision:
+    'Not approved: this code is for another answer (YES and ALLOW have their own codes). ' +
+    'Ask the user for the code that goes with their answer.',
+  replay: 'Not approved: this approval code was already used.',
+  expired: 'Not approved: this approval code has expired. Retry the blocked tool to get a new one.',
+};
+
+/**
+ * Approve the pending request whose one-time code for this answer the agent echoed.
+ * A rejected code (missing, wrong, for the other answer, replayed, expired) is audited.
+ */
+async function approveWithCode(
+  sessionKey: string,
+  code: unknown,
+  decision: CodeDecision
+): Promise<{ entry: ApprovalEntry } | { rejected: string }> {
+  let check;
+  try {
+    check = approvalQueue.approveByCode(
+      sessionKey,
+      code === undefined ? undefined : String(code),
+      parseSessionKey(sessionKey).peer,
+      decision
+    );
+  } catch (error) {
+    // A vote on a multi-party request that does not count
+    return { rejected: `Not approved: ${(error as Error).message}.` };
+  }
+  if (check.ok) return { entry: check.entry };
+
+  logger.warn(`[${CLAWBANDS_RESPOND_TOOL}] Approval code rejected (${check.reason})`, {
+    sessionKey,
+  });
+  await DecisionLog.appendEvent('APPROVAL_CODE_REJECTED', {
+    sessionKey,
+    reason: check.reason,
+    decision,
+    correlationId: check.correlationId,
+    denied: check.denied,
+  });
+  return {
+    rejected: check.denied
+      ? `Not approved: too many wrong approval codes. The pending request(s) were denied. Do NOT retry the blocked tool.`
+      : CODE_REJECTIONS[check.reason],
+  };
+}
+
+/**
+ * What the agent is told when there is nothing to answer, naming the
+ * session's requests that expired before the answer came.
+ */
+function nothingPending(sessionKey: string, verb: 'approve' | 'allow'): string {
+  const expired = approvalQueue.listExpired(sessionKey);
+  if (expired.length === 0) return `No pending approvals to ${verb}.`;
+  const actions = expired.map((e) => `${e.moduleName}.${e.methodName}`).join(', ');
+  return (
+    `No pending approvals to ${verb}: the approval request for ${actions} expired before ` +
+    `the answer. Retry the blocked tool to ask again.`
+  );
+}
+
+/**
+ * What the agent is told about requests still short of their approvers:
+ * " Still waiting for other approvers: ..." (empty when there are none)
+ */
+function describeWaiting(sessionKey: string): string {
+  const waiting = approvalQueue
+    .listPending()
+    .filter((e) => e.sessionKey === sessionKey && e.quorum);
+  if (waiting.length === 0) return '';
+  const actions = waiting.map(
+    (e) =>
+      `${e.moduleName}.${e.methodName} (${countApprovals(e)} of ${e.quorum!.required} approvals, ` +
+      `needs ${describeQuorum(e.quorum!)})`
+  );
+  return ` Still waiting for other approvers: ${actions.join(', ')}. Do NOT retry it until they approved.`;
+}
+
 /**
  * Handle the clawbands_respond tool call.
  * Extracts the decision from params and approves/denies pending entries.
+ * ALLOW also creates a grant per pending action (see GrantStore). A grant wider
+ * than the session or longer than `approval.maxGrantDuration` is created
+ * unconfirmed: the chat alone only approves the call at hand.
+ * Unless approval codes are off, YES and ALLOW must echo the one-time code of
+ * a pending request, and only that request is approved.
  * Always blocks (this is a control signal, not a real tool execution).
  */
-function handleRespondTool(
+async function handleRespondTool(
   params: Record<string, unknown>,
-  ctx: ToolContext
-): BeforeToolCallResult {
-  const BLANKET_DURATION_MS = 15 * 60 * 1000;
+  ctx: ToolContext,
+  approval: ApprovalConfig = {}
+): Promise<BeforeToolCallResult> {
   const decision = typeof params.decision === 'string' ? params.decision.toLowerCase() : '';
   const sessionKey = ctx.sessionKey;
+  const codesRequired = (approval.codes ?? 'challenge') !== 'off';
 
   if (!sessionKey) {
     logger.warn(`[${CLAWBANDS_RESPOND_TOOL}] No sessionKey in context`);
     return { block: true, blockReason: 'Error: no session context available.' };
   }
 
+  // A code is checked even with nothing pending, so replays are reported and audited
+  const codeGiven = codesRequired && params.code !== undefined;
+
   if (decision === 'yes') {
-    if (!approvalQueue.hasPending(sessionKey)) {
+    if (!codeGiven && !approvalQueue.hasPending(sessionKey)) {
       logger.info(`[${CLAWBANDS_RESPOND_TOOL}] No pending approvals for session`, { sessionKey });
-      return { block: true, blockReason: 'No pending approvals to approve.' };
+      return { block: true, blockReason: nothingPending(sessionKey, 'approve') };
+    }
+    if (codesRequired) {
+      const result = await approveWithCode(sessionKey, params.code, 'yes');
+      if ('rejected' in result) return { block: true, blockReason: result.rejected };
+      const { moduleName, methodName, status } = result.entry;
+      if (status === 'pending') {
+        logger.info(`[${CLAWBANDS_RESPOND_TOOL}] Vote recorded`, {
+          sessionKey,
+          action: `${moduleName}.${methodName}`,
+        });
+        return { block: true, blockReason: `Vote recorded.${describeWaiting(sessionKey)}` };
+      }
+      logger.info(`[${CLAWBANDS_RESPOND_TOOL}] APPROVED with code`, {
+        sessionKey,
+        action: `${moduleName}.${methodName}`,
+      });
+      return {
+        block: true,
+        blockReason: `Approved ${moduleName}.${methodName}. Retry the blocked tool.`,
+      };
     }
-    const count = approvalQueue.approve(sessionKey);
+    const count = approvalQueue.approve(sessionKey, parseSessionKey(sessionKey).peer);
     logger.info(`[${CLAWBANDS_RESPOND_TOOL}] APPROVED`, { sessionKey, count });
-    return { block: true, blockReason: 'Approved. Retry the blocked tool.' };
+    const waiting = describeWaiting(sessionKey);
+    return {
+      block: true,
+      blockReason:
+        count > 0 || !waiting
+          ? `Approved. Retry the blocked tool.${waiting}`
+          : `Not approved.${waiting}`,
+    };
   }
 
   if (decision === 'no') {
@@ -140,18 +287,108 @@ function handleRespondTool(
   }
 
   if (decision === 'allow') {
-    const pending = approvalQueue.getPendingActions(sessionKey);
-    if (pending.length === 0) {
+    let pending = approvalQueue.getPendingActions(sessionKey);
+    if (!codeGiven && pending.length === 0) {
       logger.info(`[${CLAWBANDS_RESPOND_TOOL}] No pending approvals for ALLOW`, { sessionKey });
-      return { block: true, blockReason: 'No pending approvals to allow.' };
+      return { block: true, blockReason: nothingPending(sessionKey, 'allow') };
+    }
+    // A grant is one person's say-so: multi-party requests are answered one vote at a time
+    const multiParty = pending.filter((a) => a.quorum);
+    if (multiParty.length > 0) {
+      const actions = multiParty.map((e) => `${e.moduleName}.${e.methodName}`).join(', ');
+      return {
+        block: true,
+        blockReason: `Cannot ALLOW ${actions}: it needs several approvers. Answer YES instead.`,
+      };
     }
-    for (const { moduleName, methodName } of pending) {
-      approvalQueue.allowFor(sessionKey, moduleName, methodName, BLANKET_DURATION_MS);
+    const duration = params.duration === undefined ? DEFAULT_GRANT_DURATION : params.duration;
+    const forSession = duration === 'session';
+    const durationMs = forSession ? undefined : parseDuration(duration);
+    if (!forSession && durationMs === undefined) {
+      return {
+        block: true,
+        blockReason: `Invalid duration "${String(duration)}". Use e.g. "15m", "1h", "1d" or "session".`,
+      };
     }
-    const count = approvalQueue.approve(sessionKey);
-    const rules = pending.map((p) => `${p.moduleName}.${p.methodName}`).join(', ');
-    logger.info(`[${CLAWBANDS_RESPOND_TOOL}] ALLOW for 15 min`, { sessionKey, rules, count });
-    return { block: true, blockReason: `Approved for 15 minutes: ${rules}. Retry the blocked tool.` };
+    const scope = (params.scope === undefined ? 'session' : params.scope) as GrantScope;
+    if (!GRANT_SCOPES.includes(scope) || (forSession && scope !== 'session')) {
+      return {
+        block: true,
+        blockReason: forSession
+          ? 'A "session" duration only applies to scope "session".'
+          : `Invalid scope "${String(params.scope)}". Use "session", "agent" or "global".`,
+      };
+    }
+    const agentId = ctx.agentId ?? parseSessionKey(sessionKey).agentId;
+    if (scope === 'agent' && !agentId) {
+      return { block: true, blockReason: 'Error: no agent context available for scope "agent".' };
+    }
+    const issues = params.match === undefined ? [] : validateRuleMatch(params.match);
+    if (issues.length > 0) {
+      return { block: true, blockReason: `Invalid match:\n${formatIssues(issues)}` };
+    }
+
+    let count: number;
+    if (codesRequired) {
+      const result = await approveWithCode(sessionKey, params.code, 'allow');
+      if ('rejected' in result) return { block: true, blockReason: result.rejected };
+      pending = [result.entry];
+      count = 1;
+    } else {
+      count = approvalQueue.approve(sessionKey, parseSessionKey(sessionKey).peer);
+    }
+
+    const lifetimeMs = forSession ? SESSION_GRANT_MS : durationMs!;
+    const maxMs =
+      parseDuration(approval.maxGrantDuration) ?? parseDuration(DEFAULT_GRANT_DURATION)!;
+    // Anything the chat may not grant alone waits for a human at a terminal
+    const unconfirmed = scope !== 'session' || lifetimeMs > maxMs;
+    const expiresAt = new Date(Date.now() + lifetimeMs).toISOString();
+    const grants = [];
+    for (const { moduleName, methodName, correlationId } of pending) {
+      grants.push(
+        await GrantStore.create({
+          moduleName,
+          methodName,
+          scope,
+          sessionKey: scope === 'session' ? sessionKey : undefined,
+          agentId: scope === 'agent' ? agentId : undefined,
+          match: params.match as RuleMatch | undefined,
+          expiresAt,
+          grantedBy: parseSessionKey(sessionKey).peer,
+          correlationId,
+          unconfirmed: unconfirmed || undefined,
+        })
+      );
+    }
+    const rules = grants.map((g) => `${g.moduleName}.${g.methodName} (grant ${g.id})`).join(', ');
+    const lifetime = forSession ? 'this session' : formatDuration(durationMs!);
+    logger.info(`[${CLAWBANDS_RESPOND_TOOL}] ALLOW for ${lifetime}`, {
+      sessionKey,
+      rules,
+      scope,
+      count,
+      unconfirmed,
+    });
+    if (unconfirmed) {
+      const ids = grants.map((g) => g.id).join(' ');
+      return {
+        block: true,
+        blockReason:
+          `Approved once. The ALLOW for ${lifetime}` +
+          `${scope === 'session' ? '' : ` (scope: ${scope})`} is more than the chat can grant ` +
+          `alone (${formatDuration(maxMs)}, this session only), so it needs confirmation outside this chat: ` +
+          `the user runs \`clawbands grants confirm ${ids}\`. Until then it approves nothing. ` +
+          'Retry the blocked tool.',
+      };
+    }
+    return {
+      block: true,
+      blockReason:
+        `Approved for ${lifetime}${scope === 'session' ? '' : ` (scope: ${scope})`}` +
+        `, until ${expiresAt}: ${rules}. ` +
+        'Retry the blocked tool. Revoke with `clawbands grants revoke <id>`.',
+    };
   }
 
   logger.warn(`[${CLAWBANDS_RESPOND_TOOL}] Invalid decision: "${params.decision}"`, { sessionKey });
@@ -159,19 +396,74 @@ function handleRespondTool(
 }
 
 /**
- * Get the tool-to-module mapping for display in CLI/init wizard
+ * Match a tool name against a custom mapping.
+ * Returns the mapped module/method, or undefined if the mapping does not apply.
+ */
+function applyToolMapping(
+  toolName: string,
+  mapping: ToolMapping
+): { module: string; method: string } | undefined {
+  let match: RegExpExecArray | null = null;
+
+  if (mapping.tool !== undefined) {
+    // Glob: escape regex specials, then turn each '*' into a capture group
+    const source = mapping.tool
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('(.*)');
+    match = new RegExp(`^${source}$`, 'i').exec(toolName);
+  } else if (mapping.pattern !== undefined) {
+    try {
+      match = new RegExp(mapping.pattern).exec(toolName);
+    } catch {
+      return undefined;
+    }
+  }
+
+  if (!match) return undefined;
+
+  const groups = match;
+  const method = mapping.method
+    ? mapping.method.replace(/\$(\d+)/g, (_, group: string) => groups[Number(group)] ?? '')
+    : groups[1] || toolName;
+  return { module: mapping.module, method };
+}
+
+/**
+ * Map an OpenClaw tool name to its ClawBands module/method pair.
+ * Custom mappings from the policy are checked first, in order, then the
+ * built-in table. Unmapped tools land in module "Unknown" with the raw tool
+ * name as method.
+ */
+export function mapTool(
+  toolName: string,
+  customMappings: ToolMapping[] = []
+): { module: string; method: string } {
+  for (const mapping of customMappings) {
+    const mapped = applyToolMapping(toolName, mapping);
+    if (mapped) return mapped;
+  }
+  return TOOL_TO_MODULE[toolName.toLowerCase()] ?? { module: UNKNOWN_MODULE, method: toolName };
+}
+
+/**
+ * Get the built-in tool-to-module mapping for display in CLI/init wizard
  */
 export function getToolMapping(): Record<string, { module: string; method: string }> {
   return { ...TOOL_TO_MODULE };
 }
 
 /**
- * Get the list of unique module names that ClawBands can protect
+ * Get the list of unique module names that ClawBands can protect,
+ * including modules introduced by custom tool mappings
  */
-export function getProtectedModules(): string[] {
+export function getProtectedModules(customMappings: ToolMapping[] = []): string[] {
   const modules = new Set<string>();
   for (const entry of Object.values(TOOL_TO_MODULE)) {
     modules.add(entry.module);
   }
+  for (const mapping of customMappings) {
+    modules.add(mapping.module);
+  }
   return Array.from(modules);
 }
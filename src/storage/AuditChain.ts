@@ -0,0 +1,243 @@
+/**
+ * ClawBands AuditChain
+ * Hash chain, HMAC signing and verification of the audit trail
+ *
+ * Every line of decisions.jsonl carries `seq`, `prevHash` (hash of the line
+ * before it) and `hash` (SHA-256 of the line without `hash`/`hmac`). When a
+ * key file exists, `hmac` signs the hash so the chain cannot be recomputed by
+ * someone who edited the log. Checkpoints (seq + hash, signed) are written to a
+ * separate file so truncation of the log is detected too.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { CLAWBANDS_DATA_DIR } from '../core/Logger';
+
+/** prevHash of the first chained line */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/** A checkpoint is written every N chained lines */
+export const CHECKPOINT_INTERVAL = 100;
+
+export const AUDIT_KEY_FILE = path.join(CLAWBANDS_DATA_DIR, 'audit.key');
+export const CHECKPOINTS_FILE = path.join(CLAWBANDS_DATA_DIR, 'audit-checkpoints.jsonl');
+
+/**
+ * Chain fields added to each audit line
+ */
+export interface ChainFields {
+  seq: number;
+  prevHash: string;
+  hash: string;
+  hmac?: string;
+}
+
+export interface Checkpoint {
+  timestamp: string;
+  seq: number;
+  hash: string;
+  hmac?: string;
+}
+
+/** Last chained line, where the next one attaches */
+export interface ChainHead {
+  seq: number;
+  hash: string;
+}
+
+/**
+ * Hash of an entry (with seq and prevHash, without hash and hmac).
+ */
+export function hashEntry(entry: Record<string, unknown>): string {
+  const body: Record<string, unknown> = { ...entry };
+  delete body.hash;
+  delete body.hmac;
+  return crypto.createHash('sha256').update(JSON.stringify(body)).digest('hex');
+}
+
+export function signHash(hash: string, key: Buffer): string {
+  return crypto.createHmac('sha256', key).update(hash).digest('hex');
+}
+
+function signatureMatches(hash: string, hmac: string, key: Buffer): boolean {
+  const expected = Buffer.from(signHash(hash, key), 'hex');
+  const actual = Buffer.from(hmac, 'hex');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Attach chain fields to an entry, linking it to the head.
+ */
+export function chainEntry<T extends object>(
+  entry: T,
+  head: ChainHead,
+  key?: Buffer
+): T & ChainFields {
+  const linked = { ...entry, seq: head.seq + 1, prevHash: head.hash };
+  const hash = hashEntry(linked);
+  return { ...linked, hash, ...(key ? { hmac: signHash(hash, key) } : {}) };
+}
+
+export function createCheckpoint(head: ChainHead, key?: Buffer): Checkpoint {
+  return {
+    timestamp: new Date().toISOString(),
+    seq: head.seq,
+    hash: head.hash,
+    ...(key ? { hmac: signHash(head.hash, key) } : {}),
+  };
+}
+
+/**
+ * Load the HMAC key, if one was generated.
+ */
+export async function loadAuditKey(): Promise<Buffer | undefined> {
+  if (!(await fs.pathExists(AUDIT_KEY_FILE))) {
+    return undefined;
+  }
+  const hex = (await fs.readFile(AUDIT_KEY_FILE, 'utf8')).trim();
+  return Buffer.from(hex, 'hex');
+}
+
+/**
+ * Generate a new HMAC key (readable by the owner only).
+ * Refuses to replace an existing key: lines signed with it would no longer verify.
+ */
+export async function createAuditKey(): Promise<string> {
+  if (await fs.pathExists(AUDIT_KEY_FILE)) {
+    throw new Error(`Audit key already exists: ${AUDIT_KEY_FILE}`);
+  }
+  await fs.ensureDir(CLAWBANDS_DATA_DIR);
+  await fs.writeFile(AUDIT_KEY_FILE, crypto.randomBytes(32).toString('hex') + '\n', {
+    mode: 0o600,
+  });
+  return AUDIT_KEY_FILE;
+}
+
+export interface VerifyIssue {
+  /** 1-based line number in decisions.jsonl (0 for the checkpoint file) */
+  line: number;
+  seq?: number;
+  problem: string;
+}
+
+export interface VerifyReport {
+  ok: boolean;
+  /** Lines in the log */
+  total: number;
+  /** Lines written before chaining was enabled (not verifiable) */
+  legacy: number;
+  chained: number;
+  signed: number;
+  checkpoints: number;
+  /** First problem found, if any */
+  issue?: VerifyIssue;
+}
+
+/**
+ * Verify the chain of an audit log and its checkpoints.
+ * @param lines - Raw lines of decisions.jsonl (empty lines removed)
+ * @param checkpoints - Parsed checkpoints, in file order
+ * @param key - HMAC key, if any; without it signatures are not checked
+ */
+export function verifyChain(
+  lines: string[],
+  checkpoints: Checkpoint[],
+  key?: Buffer
+): VerifyReport {
+  const report: VerifyReport = {
+    ok: true,
+    total: lines.length,
+    legacy: 0,
+    chained: 0,
+    signed: 0,
+    checkpoints: 0,
+  };
+  const fail = (issue: VerifyIssue): VerifyReport => ({ ...report, ok: false, issue });
+
+  // seq → hash and line number, for checkpoint comparison
+  const chain = new Map<number, { hash: string; line: number }>();
+  let head: ChainHead = { seq: 0, hash: GENESIS_HASH };
+  let signing = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = i + 1;
+    let entry: Record<string, unknown>;
+    try {
+      entry = JSON.parse(lines[i]);
+    } catch {
+      return fail({ line, problem: 'not valid JSON (edited or partially written)' });
+    }
+
+    if (typeof entry.hash !== 'string') {
+      // Unchained lines are only accepted before the chain starts
+      if (head.seq > 0) {
+        return fail({ line, problem: 'unchained line inside the chain (inserted or edited)' });
+      }
+      report.legacy++;
+      continue;
+    }
+
+    const seq = entry.seq as number;
+    if (seq !== head.seq + 1) {
+      return fail({
+        line,
+        seq,
+        problem: `expected seq ${head.seq + 1}, found ${seq} (lines removed or reordered)`,
+      });
+    }
+    if (entry.prevHash !== head.hash) {
+      return fail({ line, seq, problem: 'prevHash does not match the previous line' });
+    }
+    if (hashEntry(entry) !== entry.hash) {
+      return fail({ line, seq, problem: 'content does not match its hash (edited)' });
+    }
+
+    if (typeof entry.hmac === 'string') {
+      signing = true;
+      report.signed++;
+      if (key && !signatureMatches(entry.hash, entry.hmac, key)) {
+        return fail({
+          line,
+          seq,
+          problem: 'HMAC signature does not match (re-hashed or wrong key)',
+        });
+      }
+    } else if (signing) {
+      // Once lines are signed, a later unsigned one means the chain was recomputed
+      return fail({ line, seq, problem: 'unsigned line after signed lines (re-hashed)' });
+    }
+
+    report.chained++;
+    chain.set(seq, { hash: entry.hash, line });
+    head = { seq, hash: entry.hash };
+  }
+
+  for (const checkpoint of checkpoints) {
+    if (checkpoint.seq > head.seq) {
+      return fail({
+        line: lines.length,
+        seq: checkpoint.seq,
+        problem: `log ends at seq ${head.seq} but a checkpoint exists for seq ${checkpoint.seq} (truncated)`,
+      });
+    }
+    const linked = chain.get(checkpoint.seq);
+    if (linked?.hash !== checkpoint.hash) {
+      return fail({
+        line: linked?.line ?? 0,
+        seq: checkpoint.seq,
+        problem: `checkpoint for seq ${checkpoint.seq} does not match the log (rewritten)`,
+      });
+    }
+    if (key && checkpoint.hmac && !signatureMatches(checkpoint.hash, checkpoint.hmac, key)) {
+      return fail({
+        line: 0,
+        seq: checkpoint.seq,
+        problem: `checkpoint for seq ${checkpoint.seq} has an invalid signature`,
+      });
+    }
+    report.checkpoints++;
+  }
+
+  return report;
+}
@@ -6,32 +6,156 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { CLAWBANDS_DATA_DIR, logger } from '../core/Logger';
+import { RuleSource } from '../core/RuleResolver';
+import { ApprovalPath, ApprovalVote, RuleAction } from '../types';
+import { ExfilFinding } from '../core/ExfilGuard';
+import { redactor } from '../core/Redactor';
+import {
+  CHECKPOINT_INTERVAL,
+  CHECKPOINTS_FILE,
+  ChainHead,
+  Checkpoint,
+  GENESIS_HASH,
+  VerifyReport,
+  chainEntry,
+  createCheckpoint,
+  loadAuditKey,
+  verifyChain,
+} from './AuditChain';
+import { withFileLock } from './FileLock';
 
 const DECISIONS_FILE = path.join(CLAWBANDS_DATA_DIR, 'decisions.jsonl');
 
+/** Bytes read at a time, from the end of the log backwards, to find the chain head */
+const TAIL_CHUNK_SIZE = 64 * 1024;
+
+/** Held while appending, so processes (gateway, CLI) append one at a time */
+const LOCK_FILE = `${DECISIONS_FILE}.lock`;
+
+/** Serializes appends so each line links to the one written before it. */
+let writeChain = Promise.resolve();
+
+/** Chain position of a log line, if it is a chained entry */
+function parseHead(line: Buffer): ChainHead | undefined {
+  const text = line.toString('utf8').trim();
+  if (!text) return undefined;
+  try {
+    const entry = JSON.parse(text);
+    if (typeof entry.hash === 'string') {
+      return { seq: entry.seq, hash: entry.hash };
+    }
+  } catch {
+    // A broken line is reported by verify(); keep chaining after the last good one
+    logger.warn('Audit log: skipping a line that is not valid JSON to find the chain head');
+  }
+  return undefined;
+}
+
+/**
+ * Policy entry that produced a decision
+ */
+export interface RuleProvenance {
+  /** Policy key, e.g. "Shell.bash", "moduleDefaults.Network" */
+  key: string;
+  /** Resolution step, or 'self-protection' for the built-in guard */
+  source: RuleSource | 'self-protection';
+  overlay?: string;
+  conditionIndex?: number;
+}
+
+/**
+ * Outbound-secret findings that escalated a decision (field names, no values)
+ */
+export interface ExfiltrationRecord {
+  findings: ExfilFinding[];
+  destination?: string;
+  /** Action the policy alone would have taken */
+  policyAction: RuleAction;
+}
+
+/**
+ * Params as the policy rewrote them
+ */
+export interface RewriteRecord {
+  /** What changed, one line each, e.g. "command: added --dry-run" */
+  changes: string[];
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+/**
+ * Rate limit a call went over
+ */
+export interface RateLimitRecord {
+  /** Counter key (rule, plus session or agent for per-session/per-agent limits) */
+  key: string;
+  max: number;
+  windowMs: number;
+  /** When the next call fits in the budget again */
+  resetAt: string;
+}
+
 export interface DecisionRecord {
   timestamp: string;
   module: string;
   method: string;
   args: unknown[];
-  decision: 'ALLOWED' | 'APPROVED' | 'REJECTED' | 'BLOCKED';
+  /** TIMED_OUT: the approval request expired with no answer (approvalPath 'timeout') */
+  decision: 'ALLOWED' | 'APPROVED' | 'REJECTED' | 'BLOCKED' | 'TIMED_OUT';
   userId?: string;
   decisionTime: number; // milliseconds
   reason?: string;
+  /** Original OpenClaw tool name */
+  toolName?: string;
+  sessionKey?: string;
+  agentId?: string;
+  rule?: RuleProvenance;
+  /** How an ASK was settled (absent for ALLOW/DENY) */
+  approvalPath?: ApprovalPath;
+  /** Denied without asking anyone (no TTY, no session) */
+  autoDenied?: boolean;
+  /** Shared by the APPROVAL_REQUIRED block, its approval and the retry */
+  correlationId?: string;
+  /** Grant that auto-approved the ASK (approvalPath 'blanket') */
+  grantId?: string;
+  /** Every approver's answer, in order (multi-party approval) */
+  votes?: ApprovalVote[];
+  /** The approval request expired once and was escalated (rule approvalTimeout) */
+  escalated?: boolean;
+  exfiltration?: ExfiltrationRecord;
+  rewrite?: RewriteRecord;
+  rateLimit?: RateLimitRecord;
+}
+
+/**
+ * Non-decision events recorded in the audit trail
+ */
+export type AuditEventType =
+  | 'POLICY_RELOADED'
+  | 'POLICY_RELOAD_FAILED'
+  | 'GRANT_CREATED'
+  | 'GRANT_CONFIRMED'
+  | 'GRANT_REVOKED'
+  | 'APPROVAL_DENIED'
+  | 'APPROVAL_CODE_REJECTED'
+  | 'CALLBACK_ANSWERED'
+  | 'CALLBACK_REJECTED';
+
+export interface AuditEvent {
+  timestamp: string;
+  event: AuditEventType;
+  details?: Record<string, unknown>;
 }
 
+export type AuditEntry = DecisionRecord | AuditEvent;
+
 export class DecisionLog {
   /**
    * Append a decision record to the log (JSON Lines format)
    */
   static async append(record: DecisionRecord): Promise<void> {
     try {
-      await fs.ensureDir(CLAWBANDS_DATA_DIR);
-
-      // Append as JSON Lines (one JSON object per line)
-      const line = JSON.stringify(record) + '\n';
-      await fs.appendFile(DECISIONS_FILE, line, 'utf8');
-
+      await this.write(record);
       logger.debug('Decision logged', { decision: record.decision, module: record.module });
     } catch (error) {
       logger.error('Failed to log decision', { error });
@@ -40,9 +164,119 @@ export class DecisionLog {
   }
 
   /**
-   * Read all decisions from the log
+   * Append a non-decision event (policy reload, ...) to the log, secrets in
+   * its details redacted
+   */
+  static async appendEvent(
+    event: AuditEventType,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const entry: AuditEvent = {
+        timestamp: new Date().toISOString(),
+        event,
+        details: details && redactor.redact(details),
+      };
+      await this.write(entry);
+      logger.debug('Audit event logged', { event });
+    } catch (error) {
+      logger.error('Failed to log audit event', { error });
+      // Don't throw - logging failures shouldn't break execution
+    }
+  }
+
+  /**
+   * Chain an entry to the last line and append it, writing a checkpoint
+   * every CHECKPOINT_INTERVAL lines.
+   */
+  private static write(entry: AuditEntry): Promise<void> {
+    const op = writeChain.then(async () => {
+      await fs.ensureDir(CLAWBANDS_DATA_DIR);
+      const key = await loadAuditKey();
+
+      // Re-read the head under the lock every time: other processes (CLI) append too
+      await withFileLock(LOCK_FILE, 'Audit log', async () => {
+        const chained = chainEntry(entry, await this.readHead(), key);
+        await fs.appendFile(DECISIONS_FILE, JSON.stringify(chained) + '\n', 'utf8');
+
+        if (chained.seq % CHECKPOINT_INTERVAL === 0) {
+          const checkpoint = createCheckpoint(chained, key);
+          await fs.appendFile(CHECKPOINTS_FILE, JSON.stringify(checkpoint) + '\n', 'utf8');
+        }
+      });
+    });
+    // Keep the chain going after a failed write
+    writeChain = op.catch(() => undefined);
+    return op;
+  }
+
+  /**
+   * Find the last chained line of the log, reading it backwards chunk by chunk
+   * so a line of any length is read whole. Genesis only if no line is chained
+   * yet (new log, or one with only lines written before chaining).
+   */
+  private static async readHead(): Promise<ChainHead> {
+    if (!(await fs.pathExists(DECISIONS_FILE))) {
+      return { seq: 0, hash: GENESIS_HASH };
+    }
+
+    const fd = await fs.open(DECISIONS_FILE, 'r');
+    try {
+      let end = (await fs.fstat(fd)).size;
+      // Bytes read but not yet looked at: a line whose start is still to be read
+      let pending = Buffer.alloc(0);
+      while (end > 0) {
+        const length = Math.min(end, TAIL_CHUNK_SIZE);
+        const chunk = Buffer.alloc(length);
+        await fs.read(fd, chunk, 0, length, end - length);
+        end -= length;
+        pending = Buffer.concat([chunk, pending]);
+
+        // Complete lines, last first; the first one is only complete at the start of the file
+        let cut = pending.length;
+        for (;;) {
+          const newline = cut > 0 ? pending.lastIndexOf(0x0a, cut - 1) : -1;
+          if (newline < 0 && end > 0) break;
+          const head = parseHead(pending.subarray(newline + 1, cut));
+          if (head) return head;
+          if (newline < 0) break;
+          cut = newline;
+        }
+        pending = pending.subarray(0, cut);
+      }
+    } finally {
+      await fs.close(fd);
+    }
+    return { seq: 0, hash: GENESIS_HASH };
+  }
+
+  /**
+   * Verify the hash chain, signatures and checkpoints of the log.
+   */
+  static async verify(): Promise<VerifyReport> {
+    const lines = (await fs.pathExists(DECISIONS_FILE))
+      ? (await fs.readFile(DECISIONS_FILE, 'utf8')).split('\n').filter(Boolean)
+      : [];
+    const checkpoints: Checkpoint[] = (await fs.pathExists(CHECKPOINTS_FILE))
+      ? (await fs.readFile(CHECKPOINTS_FILE, 'utf8'))
+          .split('\n')
+          .filter(Boolean)
+          .map((line) => JSON.parse(line))
+      : [];
+    return verifyChain(lines, checkpoints, await loadAuditKey());
+  }
+
+  /**
+   * Tell decision records and events apart
+   */
+  static isEvent(entry: AuditEntry): entry is AuditEvent {
+    return 'event' in entry;
+  }
+
+  /**
+   * Read all entries from the log
    */
-  static async readAll(): Promise<DecisionRecord[]> {
+  static async readAll(): Promise<AuditEntry[]> {
     try {
       if (!(await fs.pathExists(DECISIONS_FILE))) {
         return [];
@@ -59,9 +293,9 @@ export class DecisionLog {
   }
 
   /**
-   * Read the last N decisions
+   * Read the last N entries
    */
-  static async readLast(n: number): Promise<DecisionRecord[]> {
+  static async readLast(n: number): Promise<AuditEntry[]> {
     const all = await this.readAll();
     return all.slice(-n);
   }
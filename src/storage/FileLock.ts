@@ -0,0 +1,52 @@
+/**
+ * ClawBands FileLock
+ * Lock files that serialize read-modify-write cycles across processes
+ * (gateway, CLI) sharing a file under ~/.openclaw/clawbands
+ */
+
+import fs from 'fs-extra';
+import { logger } from '../core/Logger';
+
+/** A lock this old was left behind by a process that died holding it */
+const LOCK_STALE_MS = 5000;
+/** Give up after waiting this long for the lock */
+const LOCK_TIMEOUT_MS = 10000;
+const LOCK_RETRY_MS = 20;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run fn holding lockFile (created exclusively), so no other process writes
+ * between our reading a file and writing it back.
+ * @param name - What the lock guards, for messages ("Audit log", "Grants")
+ */
+export async function withFileLock<T>(
+  lockFile: string,
+  name: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      await fs.writeFile(lockFile, String(process.pid), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      const stat = await fs.stat(lockFile).catch(() => undefined);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        logger.warn(`${name}: removing a stale lock`, { lock: lockFile });
+        await fs.remove(lockFile);
+        continue;
+      }
+      if (Date.now() > deadline) throw new Error(`${name} is locked (${lockFile})`);
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+  try {
+    return await fn();
+  } finally {
+    await fs.remove(lockFile).catch(() => undefined);
+  }
+}
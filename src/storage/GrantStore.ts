@@ -0,0 +1,227 @@
+/**
+ * ClawBands GrantStore
+ * Persistent blanket allows (~/.openclaw/clawbands/grants.json)
+ *
+ * A grant auto-approves ASK decisions for one module.method, for a session,
+ * an agent or everyone, until it expires or is revoked. The file is shared by
+ * the plugin and the CLI and re-read on every lookup, so `clawbands grants
+ * revoke` takes effect on the running gateway immediately. Creations and
+ * revocations are recorded in the audit trail.
+ *
+ * A grant asked for from the chat that goes beyond what the chat may grant
+ * alone (wider than the session, longer than `approval.maxGrantDuration`) is
+ * stored unconfirmed: it approves nothing until a human runs `clawbands grants
+ * confirm`, and is dropped if nobody does within CONFIRM_WINDOW_MS.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { CLAWBANDS_DATA_DIR, logger } from '../core/Logger';
+import { matchesRule } from '../core/RuleMatcher';
+import { RuleMatch } from '../types';
+import { DecisionLog } from './DecisionLog';
+import { withFileLock } from './FileLock';
+
+const GRANTS_FILE = path.join(CLAWBANDS_DATA_DIR, 'grants.json');
+
+/** Held while updating, so processes (gateway, CLI) don't overwrite each other's changes */
+const LOCK_FILE = `${GRANTS_FILE}.lock`;
+
+/** How long an unconfirmed grant waits for `clawbands grants confirm` (1 hour). */
+const CONFIRM_WINDOW_MS = 60 * 60 * 1000;
+
+export type GrantScope = 'session' | 'agent' | 'global';
+
+export interface Grant {
+  /** Short id used by `clawbands grants revoke` */
+  id: string;
+  moduleName: string;
+  methodName: string;
+  scope: GrantScope;
+  /** Session the grant is limited to (scope session) */
+  sessionKey?: string;
+  /** Agent the grant is limited to (scope agent) */
+  agentId?: string;
+  /** Argument constraint: the call's params must match */
+  match?: RuleMatch;
+  createdAt: string;
+  /** Absent: until revoked */
+  expiresAt?: string;
+  /** Who granted it (channel peer, local user) */
+  grantedBy?: string;
+  /** Approval request the grant answered */
+  correlationId?: string;
+  /** Waits for `clawbands grants confirm` before it approves anything */
+  unconfirmed?: boolean;
+  /** Who confirmed it (local user) */
+  confirmedBy?: string;
+}
+
+export type GrantInput = Omit<Grant, 'id' | 'createdAt'>;
+
+/** A call looked up against the grants */
+export interface GrantedCall {
+  moduleName: string;
+  methodName: string;
+  params: Record<string, unknown>;
+  sessionKey?: string;
+  agentId?: string;
+}
+
+/** Serializes read-modify-write cycles within this process. */
+let writeChain = Promise.resolve();
+
+function isActive(grant: Grant, now: number = Date.now()): boolean {
+  if (grant.unconfirmed && Date.parse(grant.createdAt) + CONFIRM_WINDOW_MS <= now) return false;
+  return grant.expiresAt === undefined || Date.parse(grant.expiresAt) > now;
+}
+
+function covers(grant: Grant, call: GrantedCall): boolean {
+  if (grant.unconfirmed) return false;
+  if (grant.moduleName !== call.moduleName || grant.methodName !== call.methodName) return false;
+  if (grant.scope === 'session' && grant.sessionKey !== call.sessionKey) return false;
+  if (grant.scope === 'agent' && grant.agentId !== call.agentId) return false;
+  return !grant.match || matchesRule(grant.match, call.params);
+}
+
+export class GrantStore {
+  /**
+   * Active grants, unconfirmed ones included (expired ones are skipped, and
+   * dropped on the next write).
+   */
+  static async list(): Promise<Grant[]> {
+    return (await this.read()).filter((grant) => isActive(grant));
+  }
+
+  /**
+   * First active, confirmed grant covering the call, if any.
+   */
+  static async find(call: GrantedCall): Promise<Grant | undefined> {
+    try {
+      return (await this.list()).find((grant) => covers(grant, call));
+    } catch (error) {
+      // Unreadable grants never approve anything
+      logger.error('Failed to read grants', { error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Persist a new grant and audit it.
+   */
+  static async create(input: GrantInput): Promise<Grant> {
+    const grant: Grant = {
+      id: crypto.randomBytes(4).toString('hex'),
+      createdAt: new Date().toISOString(),
+      ...input,
+    };
+    await this.update((grants) => [...grants, grant]);
+    logger.info('Grant created', {
+      id: grant.id,
+      action: `${grant.moduleName}.${grant.methodName}`,
+    });
+    await DecisionLog.appendEvent('GRANT_CREATED', { grant });
+    return grant;
+  }
+
+  /**
+   * Confirm the unconfirmed grant with this id (or unique id prefix) and audit it.
+   * @returns the confirmed grant, or undefined if none matched
+   */
+  static async confirm(id: string, confirmedBy?: string): Promise<Grant | undefined> {
+    let confirmed: Grant | undefined;
+    await this.update((grants) => {
+      const candidates = grants.filter(
+        (grant) => isActive(grant) && grant.unconfirmed && grant.id.startsWith(id)
+      );
+      if (candidates.length > 1) {
+        throw new Error(
+          `Grant id "${id}" is ambiguous (${candidates.map((g) => g.id).join(', ')})`
+        );
+      }
+      if (candidates.length === 0) return grants;
+      confirmed = { ...candidates[0], unconfirmed: undefined, confirmedBy };
+      return grants.map((g) => (g === candidates[0] ? confirmed! : g));
+    });
+    if (confirmed) {
+      await DecisionLog.appendEvent('GRANT_CONFIRMED', { grant: confirmed });
+    }
+    return confirmed;
+  }
+
+  /**
+   * Revoke the active grant with this id (or unique id prefix) and audit it.
+   * @returns the revoked grant, or undefined if none matched
+   */
+  static async revoke(id: string, revokedBy?: string): Promise<Grant | undefined> {
+    let revoked: Grant | undefined;
+    await this.update((grants) => {
+      const candidates = grants.filter((grant) => isActive(grant) && grant.id.startsWith(id));
+      if (candidates.length > 1) {
+        throw new Error(
+          `Grant id "${id}" is ambiguous (${candidates.map((g) => g.id).join(', ')})`
+        );
+      }
+      revoked = candidates[0];
+      return grants.filter((grant) => grant !== revoked);
+    });
+    if (revoked) {
+      await DecisionLog.appendEvent('GRANT_REVOKED', { grant: revoked, revokedBy });
+    }
+    return revoked;
+  }
+
+  /**
+   * Revoke every active grant (optionally only those of a session) and audit each.
+   * @returns the revoked grants
+   */
+  static async revokeAll(
+    filter: { sessionKey?: string } = {},
+    revokedBy?: string
+  ): Promise<Grant[]> {
+    let revoked: Grant[] = [];
+    await this.update((grants) => {
+      revoked = grants.filter(
+        (grant) =>
+          isActive(grant) &&
+          (filter.sessionKey === undefined || grant.sessionKey === filter.sessionKey)
+      );
+      return grants.filter((grant) => !revoked.includes(grant));
+    });
+    for (const grant of revoked) {
+      await DecisionLog.appendEvent('GRANT_REVOKED', { grant, revokedBy });
+    }
+    return revoked;
+  }
+
+  /**
+   * Get grants file path
+   */
+  static getPath(): string {
+    return GRANTS_FILE;
+  }
+
+  private static async read(): Promise<Grant[]> {
+    if (!(await fs.pathExists(GRANTS_FILE))) return [];
+    const data = await fs.readJson(GRANTS_FILE);
+    return Array.isArray(data) ? (data as Grant[]) : [];
+  }
+
+  /** Read, modify and write the grants file (expired grants dropped). */
+  private static async update(modify: (grants: Grant[]) => Grant[]): Promise<void> {
+    const op = writeChain.then(async () => {
+      await fs.ensureDir(CLAWBANDS_DATA_DIR);
+      // Re-read under the lock: the CLI and the gateway both update the file
+      await withFileLock(LOCK_FILE, 'Grants', async () => {
+        const grants = modify(await this.read()).filter((grant) => isActive(grant));
+        // Write-then-rename so a reader never sees a half-written file
+        const tmpFile = `${GRANTS_FILE}.tmp`;
+        await fs.writeJson(tmpFile, grants, { spaces: 2 });
+        await fs.move(tmpFile, GRANTS_FILE, { overwrite: true });
+      });
+    });
+    writeChain = op.catch(() => undefined);
+    await op;
+  }
+}
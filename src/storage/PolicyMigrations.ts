@@ -0,0 +1,70 @@
+/**
+ * ClawBands PolicyMigrations
+ * Ordered upgrades of policy.json, keyed on its `version` field
+ *
+ * To change the policy format: bump CURRENT_POLICY_VERSION and append a
+ * migration whose `from` is the previous current version. Old files are then
+ * upgraded in place (with a backup) the next time they are loaded.
+ */
+
+export const CURRENT_POLICY_VERSION = '1.0.0';
+
+/** Version assumed for hand-written files that have no `version` field. */
+const UNVERSIONED = '0';
+
+export interface PolicyMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate(data: Record<string, unknown>): Record<string, unknown>;
+}
+
+const MIGRATIONS: PolicyMigration[] = [
+  {
+    from: UNVERSIONED,
+    to: '1.0.0',
+    description: 'Stamp unversioned policy with version and timestamps',
+    migrate: (data): Record<string, unknown> => {
+      const now = new Date().toISOString();
+      return {
+        ...data,
+        version: '1.0.0',
+        createdAt: typeof data.createdAt === 'string' ? data.createdAt : now,
+        updatedAt: typeof data.updatedAt === 'string' ? data.updatedAt : now,
+      };
+    },
+  },
+];
+
+export interface MigrationResult {
+  data: Record<string, unknown>;
+  /** Migrations applied, in order (empty if the file was already current) */
+  applied: PolicyMigration[];
+  /** Version the data had before migrating */
+  fromVersion: string;
+}
+
+/**
+ * Upgrade raw policy data to CURRENT_POLICY_VERSION.
+ * Throws for versions this build does not know (e.g. written by a newer ClawBands).
+ */
+export function migratePolicy(data: Record<string, unknown>): MigrationResult {
+  const fromVersion = typeof data.version === 'string' ? data.version : UNVERSIONED;
+  const applied: PolicyMigration[] = [];
+  let current = data;
+  let version = fromVersion;
+
+  while (version !== CURRENT_POLICY_VERSION) {
+    const migration = MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw new Error(
+        `version: unsupported policy version "${version}" (this ClawBands supports up to ${CURRENT_POLICY_VERSION})`
+      );
+    }
+    current = migration.migrate(current);
+    version = migration.to;
+    applied.push(migration);
+  }
+
+  return { data: current, applied, fromVersion };
+}
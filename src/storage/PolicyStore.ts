@@ -4,11 +4,14 @@
  */
 
 import fs from 'fs-extra';
-import { readFileSync, existsSync, mkdirSync, writeFileSync } from 'fs';
+import { readFileSync, existsSync, mkdirSync, writeFileSync, copyFileSync } from 'fs';
 import path from 'path';
+import YAML from 'yaml';
 import { SecurityPolicy } from '../types';
 import { DEFAULT_POLICY } from '../config';
 import { CLAWBANDS_DATA_DIR, logger } from '../core/Logger';
+import { validatePolicy, formatIssues, ValidationIssue } from './PolicyValidator';
+import { migratePolicy, MigrationResult, CURRENT_POLICY_VERSION } from './PolicyMigrations';
 
 const POLICY_FILE = path.join(CLAWBANDS_DATA_DIR, 'policy.json');
 
@@ -18,6 +21,20 @@ export interface PersistedPolicy extends SecurityPolicy {
   updatedAt: string;
 }
 
+/** Serialization formats for import/export */
+export type PolicyFormat = 'json' | 'yaml';
+
+/**
+ * Outcome of checking raw policy content
+ */
+export interface PolicyCheck {
+  /** The migrated policy, present only when there are no issues */
+  policy?: PersistedPolicy;
+  issues: ValidationIssue[];
+  /** Set when the content was migrated from an older version */
+  migration?: MigrationResult;
+}
+
 export class PolicyStore {
   /**
    * Load the policy from disk, or create default if doesn't exist
@@ -28,18 +45,14 @@ export class PolicyStore {
       await fs.ensureDir(CLAWBANDS_DATA_DIR);
 
       if (await fs.pathExists(POLICY_FILE)) {
-        const data = await fs.readJson(POLICY_FILE);
+        const content = await fs.readFile(POLICY_FILE, 'utf8');
+        const data = this.prepare(content);
         logger.info('Policy loaded from disk', { path: POLICY_FILE });
         return data;
       } else {
         // Create default policy
         logger.info('No existing policy found, creating default');
-        const defaultPolicy: PersistedPolicy = {
-          ...DEFAULT_POLICY,
-          version: '1.0.0',
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        };
+        const defaultPolicy = this.createDefault();
         await this.save(defaultPolicy);
         return defaultPolicy;
       }
@@ -56,7 +69,10 @@ export class PolicyStore {
     try {
       await fs.ensureDir(CLAWBANDS_DATA_DIR);
       policy.updatedAt = new Date().toISOString();
-      await fs.writeJson(POLICY_FILE, policy, { spaces: 2 });
+      // Write-then-rename so a watching gateway never reads a half-written file
+      const tmpFile = `${POLICY_FILE}.tmp`;
+      await fs.writeJson(tmpFile, policy, { spaces: 2 });
+      await fs.move(tmpFile, POLICY_FILE, { overwrite: true });
       logger.info('Policy saved to disk', { path: POLICY_FILE });
     } catch (error) {
       logger.error('Failed to save policy', { error });
@@ -68,13 +84,7 @@ export class PolicyStore {
    * Reset policy to defaults
    */
   static async reset(): Promise<void> {
-    const defaultPolicy: PersistedPolicy = {
-      ...DEFAULT_POLICY,
-      version: '1.0.0',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-    await this.save(defaultPolicy);
+    await this.save(this.createDefault());
     logger.info('Policy reset to defaults');
   }
 
@@ -88,16 +98,11 @@ export class PolicyStore {
       }
 
       if (existsSync(POLICY_FILE)) {
-        const data = JSON.parse(readFileSync(POLICY_FILE, 'utf-8'));
+        const data = this.prepare(readFileSync(POLICY_FILE, 'utf-8'));
         logger.info('Policy loaded from disk (sync)', { path: POLICY_FILE });
         return data;
       } else {
-        const defaultPolicy: PersistedPolicy = {
-          ...DEFAULT_POLICY,
-          version: '1.0.0',
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        };
+        const defaultPolicy = this.createDefault();
         writeFileSync(POLICY_FILE, JSON.stringify(defaultPolicy, null, 2), 'utf-8');
         logger.info('Created default policy (sync)', { path: POLICY_FILE });
         return defaultPolicy;
@@ -108,10 +113,112 @@ export class PolicyStore {
     }
   }
 
+  /**
+   * Migrate and validate raw policy content without touching the disk.
+   */
+  static check(content: string, format: PolicyFormat = 'json'): PolicyCheck {
+    let data: unknown;
+    try {
+      data = format === 'yaml' ? YAML.parse(content) : JSON.parse(content);
+    } catch (error) {
+      const label = format === 'yaml' ? 'YAML' : 'JSON';
+      return {
+        issues: [{ path: '(root)', message: `invalid ${label}: ${(error as Error).message}` }],
+      };
+    }
+
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return { issues: validatePolicy(data) };
+    }
+
+    let migration: MigrationResult;
+    try {
+      migration = migratePolicy(data as Record<string, unknown>);
+    } catch (error) {
+      return { issues: [{ path: 'version', message: (error as Error).message }] };
+    }
+
+    const issues = validatePolicy(migration.data);
+    const migrated = migration.applied.length > 0 ? migration : undefined;
+    if (issues.length > 0) {
+      return { issues, migration: migrated };
+    }
+    return {
+      policy: migration.data as unknown as PersistedPolicy,
+      issues,
+      migration: migrated,
+    };
+  }
+
+  /**
+   * Parse raw policy.json content, throwing if it is not a valid policy.
+   * Older versions are migrated in memory. Used by the plugin's hot-reload.
+   */
+  static parse(content: string): PersistedPolicy {
+    const { policy, issues } = this.check(content);
+    if (!policy) {
+      throw new Error(`Invalid policy:\n${formatIssues(issues)}`);
+    }
+    return policy;
+  }
+
+  /**
+   * Serialize a policy for export. Timestamps are left out so exported files
+   * stay stable in dotfiles and provisioning repos.
+   */
+  static serialize(policy: PersistedPolicy, format: PolicyFormat = 'json'): string {
+    const portable: Partial<PersistedPolicy> = { ...policy };
+    delete portable.createdAt;
+    delete portable.updatedAt;
+    return format === 'yaml' ? YAML.stringify(portable) : JSON.stringify(portable, null, 2) + '\n';
+  }
+
+  /**
+   * Guess the serialization format from a file name (.yaml/.yml → yaml, else json)
+   */
+  static formatFor(file: string): PolicyFormat {
+    return /\.ya?ml$/i.test(file) ? 'yaml' : 'json';
+  }
+
   /**
    * Get the policy file path
    */
   static getPath(): string {
     return POLICY_FILE;
   }
+
+  /**
+   * Validate the on-disk content and, if it came from an older version,
+   * back the file up and rewrite it in the current format.
+   */
+  private static prepare(content: string): PersistedPolicy {
+    const { policy, issues, migration } = this.check(content);
+    if (!policy) {
+      throw new Error(`Invalid policy ${POLICY_FILE}:\n${formatIssues(issues)}`);
+    }
+
+    if (migration) {
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const backup = `${POLICY_FILE}.v${migration.fromVersion}.${stamp}.bak`;
+      copyFileSync(POLICY_FILE, backup);
+      writeFileSync(POLICY_FILE, JSON.stringify(policy, null, 2), 'utf-8');
+      logger.info('Policy migrated', {
+        from: migration.fromVersion,
+        to: CURRENT_POLICY_VERSION,
+        steps: migration.applied.map((m) => m.description),
+        backup,
+      });
+    }
+
+    return policy;
+  }
+
+  private static createDefault(): PersistedPolicy {
+    return {
+      ...DEFAULT_POLICY,
+      version: CURRENT_POLICY_VERSION,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+  }
 }
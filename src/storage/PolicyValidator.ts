@@ -0,0 +1,1092 @@
+/**
+ * ClawBands PolicyValidator
+ * Strict structural validation of policy.json with precise error paths
+ */
+
+import { Decision, RuleAction } from '../types';
+import { SHELL_RISKS } from '../core/ShellAnalyzer';
+import { BUILTIN_DETECTORS } from '../core/Redactor';
+import { parseDuration } from '../core/RateLimiter';
+import { isDayName, isValidTimezone, parseClock } from '../core/Schedule';
+
+export const DECISIONS: Decision[] = ['ALLOW', 'ASK', 'DENY'];
+const RULE_ACTIONS: RuleAction[] = [...DECISIONS, 'REWRITE'];
+
+export interface ValidationIssue {
+  /** Dotted path to the offending value, e.g. "modules.Shell.bash.action" */
+  path: string;
+  message: string;
+}
+
+const ROOT_KEYS = [
+  'version',
+  'defaultAction',
+  'modules',
+  'moduleDefaults',
+  'tools',
+  'overlays',
+  'redaction',
+  'exfiltration',
+  'timezone',
+  'approval',
+  'notifications',
+  'callbacks',
+  'createdAt',
+  'updatedAt',
+];
+const RULE_KEYS = [
+  'action',
+  'description',
+  'conditions',
+  'rewrite',
+  'limit',
+  'approvers',
+  'approvalTimeout',
+];
+const LIMIT_KEYS = ['max', 'window', 'per', 'onExceed'];
+const LIMIT_SCOPES = ['session', 'agent', 'global'];
+const APPROVER_KEYS = ['required', 'from'];
+const APPROVAL_TIMEOUT_KEYS = ['ttl', 'retryWindow', 'onTimeout', 'escalateTo', 'escalationTtl'];
+const TIMEOUT_OUTCOMES = ['deny', 'escalate'];
+const CONDITION_KEYS = [
+  'match',
+  'action',
+  'description',
+  'rewrite',
+  'approvers',
+  'approvalTimeout',
+];
+const TRANSFORMS = ['appendFlag', 'clamp', 'stripHeaders', 'sandboxPath'];
+const TRANSFORM_KEYS = [...TRANSFORMS, 'min', 'max'];
+/** A single flag, optionally with a plain value: nothing the shell would interpret */
+const FLAG = /^--?[A-Za-z0-9][\w.-]*(=[\w.,:/@+-]*)?$/;
+const MATCH_KEYS = ['path', 'command', 'commandPrefix', 'host', 'scheme', 'risk', 'schedule'];
+const SCHEDULE_KEYS = ['days', 'from', 'to'];
+const RISK_MATCH_KEYS = ['any', 'only'];
+const TOOL_MAPPING_KEYS = ['tool', 'pattern', 'module', 'method'];
+const OVERLAY_SELECTORS = ['agentId', 'session', 'channel', 'chatType', 'peer'];
+const OVERLAY_KEYS = ['name', ...OVERLAY_SELECTORS, 'defaultAction', 'modules', 'moduleDefaults'];
+const REDACTION_KEYS = ['enabled', 'mode', 'detectors', 'patterns', 'keys'];
+const REDACTION_PATTERN_KEYS = ['name', 'pattern'];
+const EXFILTRATION_KEYS = ['enabled', 'action', 'allowHosts', 'minEntropy', 'minLength'];
+const APPROVAL_KEYS = ['mode', 'timeout', 'codes', 'maxGrantDuration', 'identities'];
+const IDENTITY_KEYS = ['user', 'peer'];
+const APPROVAL_MODES = ['retry', 'wait'];
+const APPROVAL_CODES = ['challenge', 'out-of-band', 'off'];
+const NOTIFICATION_KEYS = ['enabled', 'sinks', 'retries', 'timeout'];
+const SINK_KEYS = ['type', 'name', 'url', 'headers', 'command', 'on', 'modules', 'approver'];
+const SINK_TYPES = ['webhook', 'slack', 'desktop', 'command'];
+const NOTIFY_ON = ['ASK', 'DENY'];
+const CALLBACK_KEYS = ['enabled', 'host', 'port', 'baseUrl'];
+
+type Issues = ValidationIssue[];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return JSON.stringify(value);
+  return typeof value === 'object' ? 'object' : String(value);
+}
+
+function join(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function checkKeys(
+  value: Record<string, unknown>,
+  allowed: string[],
+  at: string,
+  issues: Issues
+): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      issues.push({
+        path: join(at, key),
+        message: `unknown key (expected one of ${allowed.join(', ')})`,
+      });
+    }
+  }
+}
+
+function checkDecision(value: unknown, at: string, issues: Issues): void {
+  if (!DECISIONS.includes(value as Decision)) {
+    issues.push({ path: at, message: `expected ${DECISIONS.join('|')} (got ${describe(value)})` });
+  }
+}
+
+function checkRuleAction(value: unknown, at: string, issues: Issues): void {
+  if (!RULE_ACTIONS.includes(value as RuleAction)) {
+    issues.push({
+      path: at,
+      message: `expected ${RULE_ACTIONS.join('|')} (got ${describe(value)})`,
+    });
+  }
+}
+
+function checkOptionalString(value: unknown, at: string, issues: Issues): void {
+  if (value !== undefined && typeof value !== 'string') {
+    issues.push({ path: at, message: `expected a string (got ${describe(value)})` });
+  }
+}
+
+function checkStringOrList(value: unknown, at: string, issues: Issues): string[] {
+  const list = Array.isArray(value) ? value : [value];
+  if (list.length === 0 || list.some((item) => typeof item !== 'string' || item.length === 0)) {
+    issues.push({ path: at, message: 'expected a non-empty string or list of strings' });
+    return [];
+  }
+  return list as string[];
+}
+
+function validateRiskMatch(risk: unknown, at: string, issues: Issues): void {
+  if (!isObject(risk)) {
+    issues.push({
+      path: at,
+      message: `expected an object with "any" and/or "only" (got ${describe(risk)})`,
+    });
+    return;
+  }
+  checkKeys(risk, RISK_MATCH_KEYS, at, issues);
+  if (risk.any === undefined && risk.only === undefined) {
+    issues.push({ path: at, message: 'set "any" and/or "only"' });
+  }
+  for (const key of RISK_MATCH_KEYS) {
+    if (risk[key] === undefined) continue;
+    checkStringOrList(risk[key], join(at, key), issues).forEach((value) => {
+      if (!(SHELL_RISKS as string[]).includes(value)) {
+        issues.push({
+          path: join(at, key),
+          message: `unknown risk ${JSON.stringify(value)} (expected one of ${SHELL_RISKS.join(', ')})`,
+        });
+      }
+    });
+  }
+}
+
+function validateSchedule(schedule: unknown, at: string, issues: Issues): void {
+  if (!isObject(schedule)) {
+    issues.push({
+      path: at,
+      message: `expected an object with days/from/to (got ${describe(schedule)})`,
+    });
+    return;
+  }
+  checkKeys(schedule, SCHEDULE_KEYS, at, issues);
+  if (schedule.days === undefined && schedule.from === undefined && schedule.to === undefined) {
+    issues.push({ path: at, message: 'set days, from and/or to' });
+  }
+  if (schedule.days !== undefined) {
+    checkStringOrList(schedule.days, join(at, 'days'), issues).forEach((day) => {
+      if (!isDayName(day)) {
+        issues.push({
+          path: join(at, 'days'),
+          message: `unknown day ${JSON.stringify(day)} (expected mon…sun, weekdays, weekends or daily)`,
+        });
+      }
+    });
+  }
+  for (const key of ['from', 'to']) {
+    const value = schedule[key];
+    if (value !== undefined && (typeof value !== 'string' || parseClock(value) === undefined)) {
+      issues.push({
+        path: join(at, key),
+        message: `expected a time "HH:MM" (got ${describe(value)})`,
+      });
+    }
+  }
+  if (schedule.from !== undefined && schedule.from === schedule.to) {
+    issues.push({ path: at, message: 'from and to are equal (empty window)' });
+  }
+}
+
+function validateMatch(match: unknown, at: string, issues: Issues): void {
+  if (!isObject(match)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(match)})` });
+    return;
+  }
+  checkKeys(match, MATCH_KEYS, at, issues);
+  for (const key of MATCH_KEYS) {
+    if (match[key] === undefined) continue;
+    if (key === 'risk') {
+      validateRiskMatch(match[key], join(at, key), issues);
+      continue;
+    }
+    if (key === 'schedule') {
+      const schedules = Array.isArray(match[key]) ? (match[key] as unknown[]) : [match[key]];
+      if (schedules.length === 0) {
+        issues.push({ path: join(at, key), message: 'expected a schedule or a non-empty list' });
+      }
+      schedules.forEach((schedule, index) =>
+        validateSchedule(
+          schedule,
+          Array.isArray(match[key]) ? join(join(at, key), index) : join(at, key),
+          issues
+        )
+      );
+      continue;
+    }
+    const values = checkStringOrList(match[key], join(at, key), issues);
+    if (key === 'command') {
+      values.forEach((source) => {
+        try {
+          new RegExp(source);
+        } catch (error) {
+          issues.push({
+            path: join(at, key),
+            message: `invalid regular expression ${JSON.stringify(source)}: ${(error as Error).message}`,
+          });
+        }
+      });
+    }
+  }
+}
+
+function validateTransform(transform: unknown, at: string, issues: Issues): void {
+  if (!isObject(transform)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(transform)})` });
+    return;
+  }
+  checkKeys(transform, TRANSFORM_KEYS, at, issues);
+  const kinds = TRANSFORMS.filter((kind) => transform[kind] !== undefined);
+  if (kinds.length !== 1) {
+    issues.push({ path: at, message: `set exactly one of ${TRANSFORMS.join(', ')}` });
+    return;
+  }
+
+  const [kind] = kinds;
+  const value = transform[kind];
+  if (kind === 'appendFlag' && (typeof value !== 'string' || !FLAG.test(value))) {
+    issues.push({
+      path: join(at, kind),
+      message: `expected a single flag such as "--dry-run" (got ${describe(value)})`,
+    });
+  }
+  if ((kind === 'clamp' || kind === 'sandboxPath') && (typeof value !== 'string' || !value)) {
+    issues.push({ path: join(at, kind), message: 'expected a non-empty string' });
+  }
+  if (kind === 'sandboxPath' && typeof value === 'string' && !/^(\/|~(\/|$))/.test(value)) {
+    issues.push({ path: join(at, kind), message: 'expected an absolute path' });
+  }
+  if (kind === 'stripHeaders') {
+    checkStringOrList(value, join(at, kind), issues);
+  }
+
+  if (kind !== 'clamp') {
+    for (const key of ['min', 'max']) {
+      if (transform[key] !== undefined) {
+        issues.push({ path: join(at, key), message: 'only applies to clamp' });
+      }
+    }
+    return;
+  }
+  if (transform.min === undefined && transform.max === undefined) {
+    issues.push({ path: at, message: 'set min and/or max' });
+  }
+  for (const key of ['min', 'max']) {
+    const bound = transform[key];
+    if (bound !== undefined && (typeof bound !== 'number' || !Number.isFinite(bound))) {
+      issues.push({ path: join(at, key), message: `expected a number (got ${describe(bound)})` });
+    }
+  }
+  if (
+    typeof transform.min === 'number' &&
+    typeof transform.max === 'number' &&
+    transform.min > transform.max
+  ) {
+    issues.push({ path: at, message: 'min is greater than max' });
+  }
+}
+
+function validateRewrite(rewrite: unknown, at: string, issues: Issues): void {
+  if (!Array.isArray(rewrite) || rewrite.length === 0) {
+    issues.push({ path: at, message: 'expected a non-empty list of transforms' });
+    return;
+  }
+  rewrite.forEach((transform, index) => validateTransform(transform, join(at, index), issues));
+}
+
+function validateLimit(limit: unknown, at: string, issues: Issues): void {
+  if (!isObject(limit)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(limit)})` });
+    return;
+  }
+  checkKeys(limit, LIMIT_KEYS, at, issues);
+  if (typeof limit.max !== 'number' || !Number.isInteger(limit.max) || limit.max < 1) {
+    issues.push({
+      path: join(at, 'max'),
+      message: `expected a positive integer (got ${describe(limit.max)})`,
+    });
+  }
+  if (parseDuration(limit.window) === undefined) {
+    issues.push({
+      path: join(at, 'window'),
+      message: `expected a duration such as "30s", "1m", "1h" or "1d" (got ${describe(limit.window)})`,
+    });
+  }
+  if (limit.per !== undefined && !LIMIT_SCOPES.includes(limit.per as string)) {
+    issues.push({
+      path: join(at, 'per'),
+      message: `expected ${LIMIT_SCOPES.join('|')} (got ${describe(limit.per)})`,
+    });
+  }
+  if (limit.onExceed !== undefined && limit.onExceed !== 'ASK' && limit.onExceed !== 'DENY') {
+    issues.push({
+      path: join(at, 'onExceed'),
+      message: `expected ASK or DENY (got ${describe(limit.onExceed)})`,
+    });
+  }
+}
+
+function validateApprovers(approvers: unknown, at: string, issues: Issues): void {
+  if (!isObject(approvers)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(approvers)})` });
+    return;
+  }
+  checkKeys(approvers, APPROVER_KEYS, at, issues);
+  const { required, from } = approvers;
+  if (
+    !Array.isArray(from) ||
+    from.length === 0 ||
+    from.some((name) => typeof name !== 'string' || !name)
+  ) {
+    issues.push({
+      path: join(at, 'from'),
+      message: `expected a non-empty list of names (got ${describe(from)})`,
+    });
+  } else if (new Set(from).size !== from.length) {
+    issues.push({ path: join(at, 'from'), message: 'lists an approver twice' });
+  }
+  if (typeof required !== 'number' || !Number.isInteger(required) || required < 1) {
+    issues.push({
+      path: join(at, 'required'),
+      message: `expected a positive integer (got ${describe(required)})`,
+    });
+  } else if (Array.isArray(from) && required > from.length) {
+    issues.push({
+      path: join(at, 'required'),
+      message: `needs ${required} approvers but only ${from.length} are listed`,
+    });
+  }
+}
+
+function validateApprovalTimeout(timeout: unknown, at: string, issues: Issues): void {
+  if (!isObject(timeout)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(timeout)})` });
+    return;
+  }
+  checkKeys(timeout, APPROVAL_TIMEOUT_KEYS, at, issues);
+  for (const key of ['ttl', 'retryWindow', 'escalationTtl']) {
+    if (timeout[key] !== undefined && parseDuration(timeout[key]) === undefined) {
+      issues.push({
+        path: join(at, key),
+        message: `expected a duration such as "30s", "5m" or "1h" (got ${describe(timeout[key])})`,
+      });
+    }
+  }
+  if (timeout.onTimeout !== undefined && !TIMEOUT_OUTCOMES.includes(timeout.onTimeout as string)) {
+    issues.push({
+      path: join(at, 'onTimeout'),
+      message: `expected ${TIMEOUT_OUTCOMES.join('|')} (got ${describe(timeout.onTimeout)})`,
+    });
+  }
+  if (timeout.onTimeout === 'escalate') {
+    if (timeout.escalateTo === undefined) {
+      issues.push({ path: join(at, 'escalateTo'), message: 'escalate needs the sinks to ask' });
+    } else {
+      checkStringOrList(timeout.escalateTo, join(at, 'escalateTo'), issues);
+    }
+  } else {
+    for (const key of ['escalateTo', 'escalationTtl']) {
+      if (timeout[key] !== undefined) {
+        issues.push({ path: join(at, key), message: 'only applies to onTimeout "escalate"' });
+      }
+    }
+  }
+}
+
+function validateRule(rule: unknown, at: string, issues: Issues): void {
+  if (!isObject(rule)) {
+    issues.push({ path: at, message: `expected a rule object (got ${describe(rule)})` });
+    return;
+  }
+  checkKeys(rule, RULE_KEYS, at, issues);
+  checkRuleAction(rule.action, join(at, 'action'), issues);
+  checkOptionalString(rule.description, join(at, 'description'), issues);
+  if (rule.rewrite !== undefined) {
+    validateRewrite(rule.rewrite, join(at, 'rewrite'), issues);
+  } else if (rule.action === 'REWRITE') {
+    issues.push({ path: join(at, 'rewrite'), message: 'REWRITE needs a list of transforms' });
+  }
+  if (rule.limit !== undefined) {
+    validateLimit(rule.limit, join(at, 'limit'), issues);
+  }
+  if (rule.approvers !== undefined) {
+    validateApprovers(rule.approvers, join(at, 'approvers'), issues);
+  }
+  if (rule.approvalTimeout !== undefined) {
+    validateApprovalTimeout(rule.approvalTimeout, join(at, 'approvalTimeout'), issues);
+  }
+
+  if (rule.conditions === undefined) return;
+  if (!Array.isArray(rule.conditions)) {
+    issues.push({ path: join(at, 'conditions'), message: 'expected a list of conditions' });
+    return;
+  }
+  rule.conditions.forEach((condition, index) => {
+    const conditionPath = join(join(at, 'conditions'), index);
+    if (!isObject(condition)) {
+      issues.push({
+        path: conditionPath,
+        message: `expected an object (got ${describe(condition)})`,
+      });
+      return;
+    }
+    checkKeys(condition, CONDITION_KEYS, conditionPath, issues);
+    validateMatch(condition.match, join(conditionPath, 'match'), issues);
+    checkRuleAction(condition.action, join(conditionPath, 'action'), issues);
+    checkOptionalString(condition.description, join(conditionPath, 'description'), issues);
+    if (condition.rewrite !== undefined) {
+      validateRewrite(condition.rewrite, join(conditionPath, 'rewrite'), issues);
+      if (condition.action !== 'REWRITE' && condition.action !== 'ASK') {
+        issues.push({
+          path: join(conditionPath, 'rewrite'),
+          message: `only applies to REWRITE and ASK (action is ${describe(condition.action)})`,
+        });
+      }
+    } else if (condition.action === 'REWRITE' && rule.rewrite === undefined) {
+      issues.push({
+        path: join(conditionPath, 'rewrite'),
+        message: 'REWRITE needs a list of transforms (here or on the rule)',
+      });
+    }
+    if (condition.approvers !== undefined) {
+      validateApprovers(condition.approvers, join(conditionPath, 'approvers'), issues);
+      if (condition.action !== 'ASK') {
+        issues.push({
+          path: join(conditionPath, 'approvers'),
+          message: `only applies to ASK (action is ${describe(condition.action)})`,
+        });
+      }
+    }
+    if (condition.approvalTimeout !== undefined) {
+      validateApprovalTimeout(
+        condition.approvalTimeout,
+        join(conditionPath, 'approvalTimeout'),
+        issues
+      );
+      if (condition.action !== 'ASK') {
+        issues.push({
+          path: join(conditionPath, 'approvalTimeout'),
+          message: `only applies to ASK (action is ${describe(condition.action)})`,
+        });
+      }
+    }
+  });
+}
+
+function validateModules(modules: unknown, at: string, issues: Issues): void {
+  if (!isObject(modules)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(modules)})` });
+    return;
+  }
+  for (const [moduleName, rules] of Object.entries(modules)) {
+    const modulePath = join(at, moduleName);
+    if (!isObject(rules)) {
+      issues.push({
+        path: modulePath,
+        message: `expected an object of method rules (got ${describe(rules)})`,
+      });
+      continue;
+    }
+    for (const [methodName, rule] of Object.entries(rules)) {
+      validateRule(rule, join(modulePath, methodName), issues);
+    }
+  }
+}
+
+function validateModuleDefaults(moduleDefaults: unknown, at: string, issues: Issues): void {
+  if (!isObject(moduleDefaults)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(moduleDefaults)})` });
+    return;
+  }
+  for (const [moduleName, action] of Object.entries(moduleDefaults)) {
+    checkDecision(action, join(at, moduleName), issues);
+  }
+}
+
+function validateOverlays(overlays: unknown, issues: Issues): void {
+  if (!Array.isArray(overlays)) {
+    issues.push({ path: 'overlays', message: `expected a list (got ${describe(overlays)})` });
+    return;
+  }
+  overlays.forEach((overlay, index) => {
+    const at = join('overlays', index);
+    if (!isObject(overlay)) {
+      issues.push({ path: at, message: `expected an object (got ${describe(overlay)})` });
+      return;
+    }
+    checkKeys(overlay, OVERLAY_KEYS, at, issues);
+    checkOptionalString(overlay.name, join(at, 'name'), issues);
+
+    const selectors = OVERLAY_SELECTORS.filter((key) => overlay[key] !== undefined);
+    if (selectors.length === 0) {
+      issues.push({
+        path: at,
+        message: `expected at least one selector (${OVERLAY_SELECTORS.join(', ')})`,
+      });
+    }
+    selectors.forEach((key) => checkStringOrList(overlay[key], join(at, key), issues));
+
+    if (overlay.defaultAction !== undefined) {
+      checkDecision(overlay.defaultAction, join(at, 'defaultAction'), issues);
+    }
+    if (overlay.modules !== undefined) {
+      validateModules(overlay.modules, join(at, 'modules'), issues);
+    }
+    if (overlay.moduleDefaults !== undefined) {
+      validateModuleDefaults(overlay.moduleDefaults, join(at, 'moduleDefaults'), issues);
+    }
+  });
+}
+
+function validateToolMappings(tools: unknown, issues: Issues): void {
+  if (!Array.isArray(tools)) {
+    issues.push({ path: 'tools', message: `expected a list of mappings (got ${describe(tools)})` });
+    return;
+  }
+  tools.forEach((mapping, index) => {
+    const at = join('tools', index);
+    if (!isObject(mapping)) {
+      issues.push({ path: at, message: `expected an object (got ${describe(mapping)})` });
+      return;
+    }
+    checkKeys(mapping, TOOL_MAPPING_KEYS, at, issues);
+    if ((mapping.tool === undefined) === (mapping.pattern === undefined)) {
+      issues.push({ path: at, message: 'expected exactly one of "tool" or "pattern"' });
+    }
+    if (mapping.tool !== undefined && (typeof mapping.tool !== 'string' || !mapping.tool)) {
+      issues.push({ path: join(at, 'tool'), message: 'expected a non-empty string' });
+    }
+    if (mapping.pattern !== undefined) {
+      if (typeof mapping.pattern !== 'string' || !mapping.pattern) {
+        issues.push({ path: join(at, 'pattern'), message: 'expected a non-empty string' });
+      } else {
+        try {
+          new RegExp(mapping.pattern);
+        } catch (error) {
+          issues.push({
+            path: join(at, 'pattern'),
+            message: `invalid regular expression: ${(error as Error).message}`,
+          });
+        }
+      }
+    }
+    if (typeof mapping.module !== 'string' || !mapping.module) {
+      issues.push({ path: join(at, 'module'), message: 'expected a non-empty string' });
+    }
+    checkOptionalString(mapping.method, join(at, 'method'), issues);
+  });
+}
+
+function validateRedaction(redaction: unknown, issues: Issues): void {
+  const at = 'redaction';
+  if (!isObject(redaction)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(redaction)})` });
+    return;
+  }
+  checkKeys(redaction, REDACTION_KEYS, at, issues);
+
+  if (redaction.enabled !== undefined && typeof redaction.enabled !== 'boolean') {
+    issues.push({
+      path: join(at, 'enabled'),
+      message: `expected true or false (got ${describe(redaction.enabled)})`,
+    });
+  }
+  if (redaction.mode !== undefined && redaction.mode !== 'mask' && redaction.mode !== 'hash') {
+    issues.push({
+      path: join(at, 'mode'),
+      message: `expected "mask" or "hash" (got ${describe(redaction.mode)})`,
+    });
+  }
+
+  if (redaction.detectors !== undefined) {
+    const names = BUILTIN_DETECTORS.map((detector) => detector.name);
+    checkStringOrList(redaction.detectors, join(at, 'detectors'), issues).forEach((name) => {
+      if (!names.includes(name)) {
+        issues.push({
+          path: join(at, 'detectors'),
+          message: `unknown detector ${JSON.stringify(name)} (expected one of ${names.join(', ')})`,
+        });
+      }
+    });
+  }
+
+  if (redaction.keys !== undefined) {
+    checkStringOrList(redaction.keys, join(at, 'keys'), issues);
+  }
+
+  if (redaction.patterns === undefined) return;
+  if (!Array.isArray(redaction.patterns)) {
+    issues.push({ path: join(at, 'patterns'), message: 'expected a list of { name, pattern }' });
+    return;
+  }
+  redaction.patterns.forEach((entry, index) => {
+    const entryAt = join(join(at, 'patterns'), index);
+    if (!isObject(entry)) {
+      issues.push({ path: entryAt, message: `expected an object (got ${describe(entry)})` });
+      return;
+    }
+    checkKeys(entry, REDACTION_PATTERN_KEYS, entryAt, issues);
+    if (typeof entry.name !== 'string' || !entry.name) {
+      issues.push({ path: join(entryAt, 'name'), message: 'expected a non-empty string' });
+    }
+    if (typeof entry.pattern !== 'string' || !entry.pattern) {
+      issues.push({ path: join(entryAt, 'pattern'), message: 'expected a non-empty string' });
+      return;
+    }
+    try {
+      new RegExp(entry.pattern);
+    } catch (error) {
+      issues.push({
+        path: join(entryAt, 'pattern'),
+        message: `invalid regular expression: ${(error as Error).message}`,
+      });
+    }
+  });
+}
+
+function validateExfiltration(exfiltration: unknown, issues: Issues): void {
+  const at = 'exfiltration';
+  if (!isObject(exfiltration)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(exfiltration)})` });
+    return;
+  }
+  checkKeys(exfiltration, EXFILTRATION_KEYS, at, issues);
+
+  if (exfiltration.enabled !== undefined && typeof exfiltration.enabled !== 'boolean') {
+    issues.push({
+      path: join(at, 'enabled'),
+      message: `expected true or false (got ${describe(exfiltration.enabled)})`,
+    });
+  }
+  if (
+    exfiltration.action !== undefined &&
+    exfiltration.action !== 'ASK' &&
+    exfiltration.action !== 'DENY'
+  ) {
+    issues.push({
+      path: join(at, 'action'),
+      message: `expected ASK or DENY (got ${describe(exfiltration.action)})`,
+    });
+  }
+  if (exfiltration.allowHosts !== undefined) {
+    checkStringOrList(exfiltration.allowHosts, join(at, 'allowHosts'), issues);
+  }
+  for (const key of ['minEntropy', 'minLength']) {
+    const value = exfiltration[key];
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      issues.push({
+        path: join(at, key),
+        message: `expected a positive number (got ${describe(value)})`,
+      });
+    }
+  }
+}
+
+function validateApproval(approval: unknown, issues: Issues): void {
+  const at = 'approval';
+  if (!isObject(approval)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(approval)})` });
+    return;
+  }
+  checkKeys(approval, APPROVAL_KEYS, at, issues);
+
+  if (approval.mode !== undefined && !APPROVAL_MODES.includes(approval.mode as string)) {
+    issues.push({
+      path: join(at, 'mode'),
+      message: `expected ${APPROVAL_MODES.join('|')} (got ${describe(approval.mode)})`,
+    });
+  }
+  if (approval.codes !== undefined && !APPROVAL_CODES.includes(approval.codes as string)) {
+    issues.push({
+      path: join(at, 'codes'),
+      message: `expected ${APPROVAL_CODES.join('|')} (got ${describe(approval.codes)})`,
+    });
+  }
+  if (approval.timeout !== undefined && parseDuration(approval.timeout) === undefined) {
+    issues.push({
+      path: join(at, 'timeout'),
+      message: `expected a duration such as "30s", "5m" or "1h" (got ${describe(approval.timeout)})`,
+    });
+  }
+  if (
+    approval.maxGrantDuration !== undefined &&
+    parseDuration(approval.maxGrantDuration) === undefined
+  ) {
+    issues.push({
+      path: join(at, 'maxGrantDuration'),
+      message: `expected a duration such as "15m" or "1h" (got ${describe(approval.maxGrantDuration)})`,
+    });
+  }
+  if (approval.identities !== undefined) {
+    validateIdentities(approval.identities, join(at, 'identities'), issues);
+  }
+}
+
+function validateIdentities(identities: unknown, at: string, issues: Issues): void {
+  if (!isObject(identities)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(identities)})` });
+    return;
+  }
+  // "user:alice" / "peer:+15551234567" → the approver it belongs to
+  const owners = new Map<string, string>();
+  for (const [name, identity] of Object.entries(identities)) {
+    const identityPath = join(at, name);
+    if (!isObject(identity)) {
+      issues.push({
+        path: identityPath,
+        message: `expected an object (got ${describe(identity)})`,
+      });
+      continue;
+    }
+    checkKeys(identity, IDENTITY_KEYS, identityPath, issues);
+    const ids: Array<[string, string]> = [];
+    if (identity.user !== undefined) {
+      if (typeof identity.user === 'string' && identity.user) {
+        ids.push(['user', identity.user]);
+      } else {
+        issues.push({ path: join(identityPath, 'user'), message: 'expected a non-empty string' });
+      }
+    }
+    if (identity.peer !== undefined) {
+      checkStringOrList(identity.peer, join(identityPath, 'peer'), issues).forEach((peer) =>
+        ids.push(['peer', peer])
+      );
+    }
+    for (const [kind, id] of ids) {
+      const owner = owners.get(`${kind}:${id}`);
+      if (owner) {
+        issues.push({
+          path: join(identityPath, kind),
+          message: `${JSON.stringify(id)} is already ${JSON.stringify(owner)}'s`,
+        });
+      } else {
+        owners.set(`${kind}:${id}`, name);
+      }
+    }
+  }
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return /^https?:$/.test(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function validateSink(sink: unknown, at: string, issues: Issues): void {
+  if (!isObject(sink)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(sink)})` });
+    return;
+  }
+  checkKeys(sink, SINK_KEYS, at, issues);
+
+  if (!SINK_TYPES.includes(sink.type as string)) {
+    issues.push({
+      path: join(at, 'type'),
+      message: `expected ${SINK_TYPES.join('|')} (got ${describe(sink.type)})`,
+    });
+  }
+  checkOptionalString(sink.name, join(at, 'name'), issues);
+  if ((sink.type === 'webhook' || sink.type === 'slack') && !isHttpUrl(sink.url)) {
+    issues.push({
+      path: join(at, 'url'),
+      message: `expected an http(s) URL (got ${describe(sink.url)})`,
+    });
+  }
+  if (sink.type === 'command' && (typeof sink.command !== 'string' || !sink.command.trim())) {
+    issues.push({ path: join(at, 'command'), message: 'expected a non-empty string' });
+  }
+  if (
+    sink.headers !== undefined &&
+    (!isObject(sink.headers) || Object.values(sink.headers).some((v) => typeof v !== 'string'))
+  ) {
+    issues.push({
+      path: join(at, 'headers'),
+      message: `expected an object of strings (got ${describe(sink.headers)})`,
+    });
+  }
+  if (sink.on !== undefined) {
+    const on = checkStringOrList(sink.on, join(at, 'on'), issues);
+    on.filter((item) => !NOTIFY_ON.includes(item)).forEach((item) =>
+      issues.push({
+        path: join(at, 'on'),
+        message: `unknown decision ${JSON.stringify(item)} (expected ${NOTIFY_ON.join('|')})`,
+      })
+    );
+  }
+  if (sink.modules !== undefined) {
+    checkStringOrList(sink.modules, join(at, 'modules'), issues);
+  }
+  checkOptionalString(sink.approver, join(at, 'approver'), issues);
+}
+
+function validateNotifications(notifications: unknown, issues: Issues): void {
+  const at = 'notifications';
+  if (!isObject(notifications)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(notifications)})` });
+    return;
+  }
+  checkKeys(notifications, NOTIFICATION_KEYS, at, issues);
+
+  if (notifications.enabled !== undefined && typeof notifications.enabled !== 'boolean') {
+    issues.push({
+      path: join(at, 'enabled'),
+      message: `expected true or false (got ${describe(notifications.enabled)})`,
+    });
+  }
+  if (notifications.sinks !== undefined) {
+    if (Array.isArray(notifications.sinks)) {
+      notifications.sinks.forEach((sink, index) =>
+        validateSink(sink, join(join(at, 'sinks'), index), issues)
+      );
+    } else {
+      issues.push({
+        path: join(at, 'sinks'),
+        message: `expected a list of sinks (got ${describe(notifications.sinks)})`,
+      });
+    }
+  }
+  const { retries } = notifications;
+  if (retries !== undefined && !(Number.isInteger(retries) && (retries as number) >= 0)) {
+    issues.push({
+      path: join(at, 'retries'),
+      message: `expected a whole number, 0 or more (got ${describe(retries)})`,
+    });
+  }
+  if (notifications.timeout !== undefined && parseDuration(notifications.timeout) === undefined) {
+    issues.push({
+      path: join(at, 'timeout'),
+      message: `expected a duration such as "5s" or "1m" (got ${describe(notifications.timeout)})`,
+    });
+  }
+}
+
+function validateCallbacks(callbacks: unknown, issues: Issues): void {
+  const at = 'callbacks';
+  if (!isObject(callbacks)) {
+    issues.push({ path: at, message: `expected an object (got ${describe(callbacks)})` });
+    return;
+  }
+  checkKeys(callbacks, CALLBACK_KEYS, at, issues);
+
+  if (callbacks.enabled !== undefined && typeof callbacks.enabled !== 'boolean') {
+    issues.push({
+      path: join(at, 'enabled'),
+      message: `expected true or false (got ${describe(callbacks.enabled)})`,
+    });
+  }
+  if (callbacks.host !== undefined && (typeof callbacks.host !== 'string' || !callbacks.host)) {
+    issues.push({ path: join(at, 'host'), message: 'expected a non-empty string' });
+  }
+  const { port } = callbacks;
+  if (
+    port !== undefined &&
+    !(Number.isInteger(port) && (port as number) >= 0 && (port as number) <= 65535)
+  ) {
+    issues.push({
+      path: join(at, 'port'),
+      message: `expected a port number, 0 to 65535 (got ${describe(port)})`,
+    });
+  }
+  if (callbacks.baseUrl !== undefined && !isHttpUrl(callbacks.baseUrl)) {
+    issues.push({
+      path: join(at, 'baseUrl'),
+      message: `expected an http(s) URL (got ${describe(callbacks.baseUrl)})`,
+    });
+  }
+}
+
+/**
+ * Visit every rule and condition (objects only) of the policy's modules and
+ * overlays, with its path.
+ */
+function eachRule(
+  data: Record<string, unknown>,
+  visit: (rule: Record<string, unknown>, at: string) => void
+): void {
+  const walk = (modules: unknown, at: string): void => {
+    if (!isObject(modules)) return;
+    for (const [moduleName, rules] of Object.entries(modules)) {
+      if (!isObject(rules)) continue;
+      for (const [methodName, rule] of Object.entries(rules)) {
+        if (!isObject(rule)) continue;
+        const rulePath = join(join(at, moduleName), methodName);
+        visit(rule, rulePath);
+        if (!Array.isArray(rule.conditions)) continue;
+        rule.conditions.forEach((condition, index) => {
+          if (isObject(condition)) visit(condition, join(join(rulePath, 'conditions'), index));
+        });
+      }
+    }
+  };
+  walk(data.modules, 'modules');
+  if (Array.isArray(data.overlays)) {
+    data.overlays.forEach((overlay, index) => {
+      if (isObject(overlay)) walk(overlay.modules, join(join('overlays', index), 'modules'));
+    });
+  }
+}
+
+/**
+ * Approvers named by rules and sinks must be declared in `approval.identities`:
+ * an undeclared name could never vote.
+ */
+function validateApproverNames(data: Record<string, unknown>, issues: Issues): void {
+  const identities = isObject(data.approval) ? data.approval.identities : undefined;
+  const declared = isObject(identities) ? Object.keys(identities) : [];
+  const check = (name: unknown, at: string): void => {
+    if (typeof name === 'string' && name && !declared.includes(name)) {
+      issues.push({
+        path: at,
+        message: `unknown approver ${JSON.stringify(name)} (declare it in approval.identities)`,
+      });
+    }
+  };
+
+  eachRule(data, (rule, at) => {
+    const approvers = rule.approvers;
+    if (!isObject(approvers) || !Array.isArray(approvers.from)) return;
+    approvers.from.forEach((name, index) =>
+      check(name, join(join(join(at, 'approvers'), 'from'), index))
+    );
+  });
+  const sinks = isObject(data.notifications) ? data.notifications.sinks : undefined;
+  if (Array.isArray(sinks)) {
+    sinks.forEach((sink, index) => {
+      if (isObject(sink)) {
+        check(sink.approver, join(join('notifications.sinks', index), 'approver'));
+      }
+    });
+  }
+}
+
+/**
+ * Sinks a rule escalates to must exist, by the label the notifier knows them
+ * by (`name`, else `type`): an unknown one would leave the request unheard.
+ */
+function validateEscalationSinks(data: Record<string, unknown>, issues: Issues): void {
+  const sinks = isObject(data.notifications) ? data.notifications.sinks : undefined;
+  const labels = (Array.isArray(sinks) ? sinks : [])
+    .filter(isObject)
+    .map((sink) => sink.name || sink.type);
+  const check = (name: unknown, at: string): void => {
+    if (typeof name === 'string' && name && !labels.includes(name)) {
+      issues.push({
+        path: at,
+        message: `unknown sink ${JSON.stringify(name)} (expected one of notifications.sinks: ${labels.join(', ') || 'none'})`,
+      });
+    }
+  };
+
+  eachRule(data, (rule, at) => {
+    const timeout = rule.approvalTimeout;
+    if (!isObject(timeout)) return;
+    const escalatePath = join(join(at, 'approvalTimeout'), 'escalateTo');
+    if (Array.isArray(timeout.escalateTo)) {
+      timeout.escalateTo.forEach((name, index) => check(name, join(escalatePath, index)));
+    } else {
+      check(timeout.escalateTo, escalatePath);
+    }
+  });
+}
+
+/**
+ * Validate a (migrated) policy object.
+ * Returns every issue found; an empty list means the policy is valid.
+ */
+export function validatePolicy(data: unknown): ValidationIssue[] {
+  const issues: Issues = [];
+
+  if (!isObject(data)) {
+    return [{ path: '(root)', message: `expected a JSON object (got ${describe(data)})` }];
+  }
+
+  checkKeys(data, ROOT_KEYS, '', issues);
+  if (typeof data.version !== 'string') {
+    issues.push({ path: 'version', message: `expected a string (got ${describe(data.version)})` });
+  }
+  checkDecision(data.defaultAction, 'defaultAction', issues);
+  checkOptionalString(data.createdAt, 'createdAt', issues);
+  checkOptionalString(data.timezone, 'timezone', issues);
+  if (typeof data.timezone === 'string' && !isValidTimezone(data.timezone)) {
+    issues.push({
+      path: 'timezone',
+      message: `unknown timezone ${JSON.stringify(data.timezone)} (expected an IANA name such as "Europe/Berlin")`,
+    });
+  }
+  checkOptionalString(data.updatedAt, 'updatedAt', issues);
+
+  validateModules(data.modules, 'modules', issues);
+
+  if (data.moduleDefaults !== undefined) {
+    validateModuleDefaults(data.moduleDefaults, 'moduleDefaults', issues);
+  }
+
+  if (data.tools !== undefined) {
+    validateToolMappings(data.tools, issues);
+  }
+
+  if (data.overlays !== undefined) {
+    validateOverlays(data.overlays, issues);
+  }
+
+  if (data.redaction !== undefined) {
+    validateRedaction(data.redaction, issues);
+  }
+
+  if (data.exfiltration !== undefined) {
+    validateExfiltration(data.exfiltration, issues);
+  }
+
+  if (data.approval !== undefined) {
+    validateApproval(data.approval, issues);
+  }
+
+  if (data.notifications !== undefined) {
+    validateNotifications(data.notifications, issues);
+  }
+
+  if (data.callbacks !== undefined) {
+    validateCallbacks(data.callbacks, issues);
+  }
+
+  validateApproverNames(data, issues);
+  validateEscalationSinks(data, issues);
+
+  return issues;
+}
+
+/**
+ * Validate a standalone condition matcher (e.g. a grant's argument constraint).
+ */
+export function validateRuleMatch(match: unknown, at: string = 'match'): ValidationIssue[] {
+  const issues: Issues = [];
+  validateMatch(match, at, issues);
+  return issues;
+}
+
+/**
+ * Render issues one per line: "modules.Shell.bash.action: expected ALLOW|ASK|DENY|REWRITE (got "allow")"
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join('\n');
+}
@@ -6,6 +6,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { CLAWBANDS_DATA_DIR, logger } from '../core/Logger';
+import { DecisionRecord } from './DecisionLog';
 
 const STATS_FILE = path.join(CLAWBANDS_DATA_DIR, 'stats.json');
 
@@ -15,6 +16,8 @@ export interface Stats {
   rejected: number;
   blocked: number;
   allowed: number;
+  /** Approval requests nobody answered in time */
+  timedOut: number;
   avgDecisionTime: number;
   lastReset: string;
 }
@@ -31,7 +34,9 @@ export class StatsTracker {
       await fs.ensureDir(CLAWBANDS_DATA_DIR);
 
       if (await fs.pathExists(STATS_FILE)) {
-        return await fs.readJson(STATS_FILE);
+        const stats: Stats = await fs.readJson(STATS_FILE);
+        // Counters added after the file was written start at zero
+        return { ...stats, timedOut: stats.timedOut ?? 0 };
       } else {
         // Initialize with zeros
         const initialStats: Stats = {
@@ -40,6 +45,7 @@ export class StatsTracker {
           rejected: 0,
           blocked: 0,
           allowed: 0,
+          timedOut: 0,
           avgDecisionTime: 0,
           lastReset: new Date().toISOString(),
         };
@@ -69,7 +75,7 @@ export class StatsTracker {
    * Increment a stat counter and update average decision time
    */
   static async increment(
-    decision: 'ALLOWED' | 'APPROVED' | 'REJECTED' | 'BLOCKED',
+    decision: DecisionRecord['decision'],
     decisionTime: number
   ): Promise<void> {
     // Serialize writes to prevent concurrent load/modify/save from losing increments
@@ -91,6 +97,9 @@ export class StatsTracker {
         case 'BLOCKED':
           stats.blocked++;
           break;
+        case 'TIMED_OUT':
+          stats.timedOut++;
+          break;
       }
 
       // Update rolling average decision time
@@ -113,6 +122,7 @@ export class StatsTracker {
       rejected: 0,
       blocked: 0,
       allowed: 0,
+      timedOut: 0,
       avgDecisionTime: 0,
       lastReset: new Date().toISOString(),
     };
@@ -11,12 +11,249 @@
  */
 export type Decision = 'ALLOW' | 'DENY' | 'ASK';
 
+/**
+ * Outcome of a rule or condition: a decision, or REWRITE (apply the rule's
+ * `rewrite` transforms to the params, then allow the call)
+ */
+export type RuleAction = Decision | 'REWRITE';
+
+/**
+ * Declarative param transform. Set exactly one of `appendFlag`, `clamp`,
+ * `stripHeaders` or `sandboxPath`.
+ */
+export interface ParamTransform {
+  /** Flag added to the shell command unless already present (e.g. "--dry-run") */
+  appendFlag?: string;
+  /** Numeric param to keep within `min`/`max` (dot path, e.g. "timeout" or "options.timeoutMs") */
+  clamp?: string;
+  min?: number;
+  max?: number;
+  /** Headers removed from `headers` (case-insensitive, e.g. "Authorization") */
+  stripHeaders?: string | string[];
+  /** Directory the target path is moved into (`/etc/hosts` → `<dir>/etc/hosts`) */
+  sandboxPath?: string;
+}
+
+/**
+ * Weekly time window, in the policy's timezone
+ */
+export interface Schedule {
+  /** "mon" … "sun", "weekdays", "weekends" or "daily" (default: every day) */
+  days?: string | string[];
+  /** Start, "HH:MM" (default 00:00) */
+  from?: string;
+  /** End, "HH:MM", exclusive (default 24:00); earlier than `from` runs overnight */
+  to?: string;
+}
+
+/**
+ * Argument matcher for a conditional rule.
+ * Every field that is set must match for the condition to apply.
+ * Fields accept a single value or a list (any entry may match).
+ */
+export interface RuleMatch {
+  /** Glob(s) on the target path (FileSystem tools). `~` expands to the home directory. */
+  path?: string | string[];
+  /** Regular expression(s) tested against the shell command (Shell tools). */
+  command?: string | string[];
+  /** Prefix(es) the shell command must start with (Shell tools). */
+  commandPrefix?: string | string[];
+  /** Host allow-list for the target URL (Network tools, Browser.navigate). `*.example.com` matches subdomains. */
+  host?: string | string[];
+  /** Scheme allow-list for the target URL (e.g. "https"). */
+  scheme?: string | string[];
+  /** Risk categories of the shell command, as classified by the ShellAnalyzer (Shell tools). */
+  risk?: RiskMatch;
+  /** Time window(s) in which the condition applies, in the policy's timezone. */
+  schedule?: Schedule | Schedule[];
+}
+
+/**
+ * Risk category of a shell command segment
+ * - read: only reads (ls, cat, grep, git status, ...)
+ * - write: creates or modifies files (cp, mkdir, sed -i, `>` redirects, git commit, ...)
+ * - destructive: deletes or overwrites irrecoverably (rm, dd, git reset --hard, kill, ...)
+ * - network: talks to the network (curl, ssh, git push, npm install, ...)
+ * - privilege: escalates privileges (sudo, su, setuid chmod, ...)
+ * - exec: runs code the analyzer cannot see into (python, node, eval, scripts, ...)
+ * - pipe-to-shell: network output executed by a shell (`curl … | sh`, `bash <(curl …)`)
+ * - unknown: unrecognized command, or a command that could not be parsed
+ */
+export type ShellRisk =
+  | 'read'
+  | 'write'
+  | 'destructive'
+  | 'network'
+  | 'privilege'
+  | 'exec'
+  | 'pipe-to-shell'
+  | 'unknown';
+
+/**
+ * Risk condition on a shell command. Both fields must hold when set.
+ */
+export interface RiskMatch {
+  /** Some segment of the command has one of these categories */
+  any?: ShellRisk | ShellRisk[];
+  /** Every category of the command is among these (e.g. only "read") */
+  only?: ShellRisk | ShellRisk[];
+}
+
+/**
+ * Call budget for a rule: at most `max` calls per `window`
+ */
+export interface RateLimit {
+  max: number;
+  /** Sliding window: "30s", "1m", "1h", "1d" (or milliseconds) */
+  window: string | number;
+  /** Counted per session, per agent or across all calls (default) */
+  per?: 'session' | 'agent' | 'global';
+  /** Decision once the budget is used up (default DENY) */
+  onExceed?: 'ASK' | 'DENY';
+}
+
+/**
+ * Multi-party approval: an ASK needs `required` approvals from the people in
+ * `from`, and any denial rejects the call. Approvers are names declared in
+ * `approval.identities`, which says how each one is recognized.
+ */
+export interface ApproverQuorum {
+  required: number;
+  from: string[];
+}
+
+/**
+ * How an approver is recognized when voting (policy `approval.identities`).
+ * Approval links need neither: a sink's `approver` names who reads it.
+ */
+export interface ApproverIdentity {
+  /** Local OS user: the terminal prompt and `clawbands approve` */
+  user?: string;
+  /** Channel peer id(s), e.g. "+15551234567": YES through clawbands_respond */
+  peer?: string | string[];
+}
+
+/**
+ * One approver's answer to a multi-party approval
+ */
+export interface ApprovalVote {
+  approver: string;
+  vote: 'approve' | 'deny';
+  /** Where it was cast */
+  via: 'tty' | 'channel' | 'cli' | 'callback';
+  at: string;
+}
+
+/**
+ * How long an approval request stays open, and what happens when nobody
+ * answers in time: the call is denied, or the request is escalated once to
+ * other notification sinks and stays open a while longer.
+ */
+export interface ApprovalTimeout {
+  /** Lifetime of the request ("10m", or milliseconds; default 2m, wait mode: approval.timeout) */
+  ttl?: string | number;
+  /** How long a bare retry still counts as the approval (retry-as-approval; default 60s) */
+  retryWindow?: string | number;
+  /** What an unanswered request turns into (default "deny") */
+  onTimeout?: 'deny' | 'escalate';
+  /** Notification sinks (by name) asked when the request is escalated */
+  escalateTo?: string | string[];
+  /** Extra time the escalated request stays open (default: ttl) */
+  escalationTtl?: string | number;
+}
+
+/**
+ * An approval request that expired with no answer (channel mode)
+ */
+export interface TimedOutRequest {
+  correlationId: string;
+  /** "No answer within 2m", plus where it was escalated */
+  reason: string;
+  escalated?: boolean;
+  votes?: ApprovalVote[];
+}
+
+/**
+ * Argument-aware override inside a rule.
+ * Conditions are evaluated in order; the first match wins.
+ */
+export interface RuleCondition {
+  match: RuleMatch;
+  action: RuleAction;
+  description?: string;
+  /** Transforms applied for REWRITE (or before asking, for ASK) */
+  rewrite?: ParamTransform[];
+  /** Approvers an ASK needs (default: the rule's) */
+  approvers?: ApproverQuorum;
+  /** Lifetime and timeout outcome of an ASK (default: the rule's) */
+  approvalTimeout?: ApprovalTimeout;
+}
+
 /**
  * Rule definition for a specific method
  */
 export interface SecurityRule {
-  action: Decision;
+  action: RuleAction; // Fallback when no condition matches
   description?: string; // Optional reasoning for logs and UI
+  conditions?: RuleCondition[];
+  /** Transforms applied for REWRITE (or before asking, for ASK) */
+  rewrite?: ParamTransform[];
+  /** Budget shared by every call this rule (or one of its conditions) lets through */
+  limit?: RateLimit;
+  /** Approvers an ASK needs, instead of a single human answer */
+  approvers?: ApproverQuorum;
+  /** Lifetime and timeout outcome of an ASK's approval request */
+  approvalTimeout?: ApprovalTimeout;
+}
+
+/**
+ * Maps OpenClaw tool names (MCP tools, custom skills, ...) onto a module/method pair.
+ * Set exactly one of `tool` or `pattern`.
+ */
+export interface ToolMapping {
+  /** Tool name, case-insensitive. `*` is a wildcard (e.g. "mcp__github__*"). */
+  tool?: string;
+  /** Regular expression on the tool name (e.g. "^mcp__(\\w+)__delete_") */
+  pattern?: string;
+  module: string;
+  /**
+   * Method name. Defaults to the part matched by the wildcard / first capture
+   * group, or the full tool name. `$1`… reference regex capture groups.
+   */
+  method?: string;
+}
+
+/**
+ * Rules keyed by module, then method ('*' matches every method of the module)
+ */
+export interface ModuleRules {
+  [moduleName: string]: {
+    [methodName: string]: SecurityRule;
+  };
+}
+
+/**
+ * Policy layer applied over the base policy for matching agents / sessions.
+ * Session keys look like "agent:<agentId>:<channel>:<chatType>:<peer>",
+ * e.g. "agent:main:whatsapp:dm:+15551234567".
+ * All selectors that are set must match; values accept `*` wildcards.
+ */
+export interface PolicyOverlay {
+  name?: string;
+  agentId?: string | string[];
+  /** Pattern(s) on the full session key, e.g. "agent:*:telegram:*" */
+  session?: string | string[];
+  /** Channel segment of the session key (e.g. "whatsapp", "telegram") */
+  channel?: string | string[];
+  /** Chat type segment of the session key (e.g. "dm", "group") */
+  chatType?: string | string[];
+  /** Peer segment of the session key (e.g. "+1555*") */
+  peer?: string | string[];
+  defaultAction?: Decision;
+  modules?: ModuleRules;
+  moduleDefaults?: {
+    [moduleName: string]: Decision;
+  };
 }
 
 /**
@@ -24,13 +261,200 @@ export interface SecurityRule {
  */
 export interface SecurityPolicy {
   defaultAction: Decision; // Fallback if no rule exists (Paranoia mode)
-  modules: {
-    [moduleName: string]: {
-      [methodName: string]: SecurityRule;
-    };
+  modules: ModuleRules;
+  /** Per-module fallback used when neither the method nor '*' has a rule */
+  moduleDefaults?: {
+    [moduleName: string]: Decision;
   };
+  /** Extra tool mappings, checked in order before the built-in table */
+  tools?: ToolMapping[];
+  /** Agent/session-scoped layers; later matching overlays take precedence */
+  overlays?: PolicyOverlay[];
+  /** Secret/PII redaction in the audit trail, logs and prompts (on by default) */
+  redaction?: RedactionConfig;
+  /** Outbound-secret guard for Network/Browser calls (on by default) */
+  exfiltration?: ExfiltrationConfig;
+  /** IANA timezone for `schedule` conditions (default: the gateway's local time) */
+  timezone?: string;
+  /** How ASK decisions are answered without a terminal (default: block-and-retry) */
+  approval?: ApprovalConfig;
+  /** Where to send a ping when approval is requested or a call is denied */
+  notifications?: NotificationConfig;
+  /** Local HTTP server answering approve/deny links (off by default) */
+  callbacks?: CallbackConfig;
+}
+
+/**
+ * How ASK decisions are answered when there is no terminal
+ * - retry: block the call; the agent relays the question and retries (default)
+ * - wait: hold the call until a human answers out-of-band (`clawbands approve|deny`)
+ */
+export interface ApprovalConfig {
+  mode?: 'retry' | 'wait';
+  /** How long a held call waits before it is denied ("5m", or milliseconds; default 5m) */
+  timeout?: string | number;
+  /**
+   * One-time code clawbands_respond must echo to approve (default "out-of-band"
+   * when the control socket runs or a notification sink takes ASK, else "challenge")
+   * - challenge: the code is part of the approval request the agent relays; no
+   *   protection against a compromised agent, which can read it
+   * - out-of-band: the code is only shown to the human (`clawbands pending`, notifications)
+   * - off: no code; any YES from the agent approves
+   */
+  codes?: 'challenge' | 'out-of-band' | 'off';
+  /**
+   * Longest ALLOW the chat can grant on its own ("15m", or milliseconds; default 15m).
+   * Longer grants, and grants wider than the session, wait for `clawbands grants confirm`.
+   */
+  maxGrantDuration?: string | number;
+  /** Approvers of multi-party rules, by name, and how each votes */
+  identities?: Record<string, ApproverIdentity>;
 }
 
+/**
+ * Decisions a notification sink is sent
+ * - ASK: approval requested (channel or wait mode)
+ * - DENY: call blocked by the policy, a rate limit, the exfiltration guard or self-protection
+ */
+export type NotifyOn = 'ASK' | 'DENY';
+
+/**
+ * Where notifications go
+ * - webhook: POST the event as JSON to `url`
+ * - slack: POST a Slack incoming-webhook message to `url`
+ * - desktop: desktop notification (notify-send on Linux, osascript on macOS)
+ * - command: run `command` with the event as JSON on stdin
+ */
+export interface NotificationSink {
+  type: 'webhook' | 'slack' | 'desktop' | 'command';
+  /** Label in logs and `clawbands notify test` (default: the type) */
+  name?: string;
+  url?: string;
+  /** Extra request headers (webhook) */
+  headers?: Record<string, string>;
+  command?: string;
+  /** Decisions to send (default: ASK and DENY) */
+  on?: NotifyOn | NotifyOn[];
+  /** Modules ("Shell") or methods ("Shell.bash") to send (default: all) */
+  modules?: string | string[];
+  /** Who reads this sink: its approve/deny links count as their vote (multi-party approval) */
+  approver?: string;
+}
+
+/**
+ * Notification settings
+ */
+export interface NotificationConfig {
+  /** Default true */
+  enabled?: boolean;
+  sinks?: NotificationSink[];
+  /** Extra attempts after a failed delivery, with exponential backoff (default 2) */
+  retries?: number;
+  /** Time limit per attempt ("5s", or milliseconds; default 5s) */
+  timeout?: string | number;
+}
+
+/**
+ * Callback server settings (read when the gateway starts)
+ */
+export interface CallbackConfig {
+  /** Default false */
+  enabled?: boolean;
+  /** Interface to listen on (default 127.0.0.1) */
+  host?: string;
+  /** Default 8787; 0 picks a free port */
+  port?: number;
+  /** Start of the links, when the server is reached through a proxy or tunnel (default http://host:port) */
+  baseUrl?: string;
+}
+
+/**
+ * Outbound-secret guard settings
+ */
+export interface ExfiltrationConfig {
+  /** Default true */
+  enabled?: boolean;
+  /** Decision when a secret is found (default ASK); never lowers a stricter rule */
+  action?: 'ASK' | 'DENY';
+  /** Hosts credentials may be sent to (`*.example.com` matches subdomains) */
+  allowHosts?: string[];
+  /** Shannon entropy (bits per character) above which a token looks random (default 4.0) */
+  minEntropy?: number;
+  /** Shortest token checked for entropy (default 24) */
+  minLength?: number;
+}
+
+/**
+ * User-defined redaction pattern
+ */
+export interface RedactionPattern {
+  /** Label used in the replacement, e.g. [REDACTED:internal-id] */
+  name: string;
+  /** Regular expression; every match is redacted */
+  pattern: string;
+}
+
+/**
+ * Redaction settings
+ */
+export interface RedactionConfig {
+  /** Default true */
+  enabled?: boolean;
+  /** mask: replace with a label; hash: label plus a short SHA-256 of the value */
+  mode?: 'mask' | 'hash';
+  /** Built-in detectors to use (default: all) */
+  detectors?: string[];
+  patterns?: RedactionPattern[];
+  /** Extra param/header names whose values are always redacted (e.g. "content") */
+  keys?: string[];
+}
+
+/**
+ * Who is calling, from the OpenClaw tool context
+ */
+export interface CallScope {
+  sessionKey?: string;
+  agentId?: string;
+  /** Policy approval settings (wait mode, codes) */
+  approval?: ApprovalConfig;
+  /** clawbands_respond is registered, so a bare retry is not an approval */
+  respondTool?: boolean;
+}
+
+/**
+ * Extra details about a tool call passed to Interceptor.evaluate()
+ */
+export interface ToolCallMeta {
+  agentId?: string;
+  /** Original OpenClaw tool name, before mapping to module/method */
+  toolName?: string;
+}
+
+/**
+ * How an ASK decision was settled
+ * - tty: answered at the interactive terminal prompt
+ * - blanket: covered by a grant (an earlier ALLOW, see `clawbands grants`)
+ * - explicit: approved via clawbands_respond({ decision: "yes" })
+ * - cli: answered from a terminal (`clawbands approve|deny <id>`)
+ * - callback: answered with a signed approve/deny link (callback server)
+ * - quorum: approved by enough of the rule's approvers (see the record's votes)
+ * - retry: approved by retrying the blocked call (retry-as-approval)
+ * - requested: blocked, approval requested on the messaging channel
+ * - auto-deny: no TTY and no session, denied without asking
+ * - timeout: the approval request expired with no answer (held call, or channel request)
+ */
+export type ApprovalPath =
+  | 'tty'
+  | 'blanket'
+  | 'explicit'
+  | 'cli'
+  | 'callback'
+  | 'quorum'
+  | 'retry'
+  | 'requested'
+  | 'auto-deny'
+  | 'timeout';
+
 /**
  * Execution context passed to the Arbitrator
  */
@@ -39,6 +463,15 @@ export interface ExecutionContext {
   methodName: string;
   args: unknown[];
   rule: SecurityRule;
+  /** Changes made to the params by the rule's rewrite, shown with the prompt */
+  rewrites?: string[];
   /** OpenClaw session key (e.g. "agent:main:whatsapp:dm:+1555…"). Present in daemon/channel mode. */
   sessionKey?: string;
+  agentId?: string;
+  /** Policy approval settings (wait mode, codes) */
+  approval?: ApprovalConfig;
+  /** clawbands_respond is registered, so a bare retry is not an approval */
+  respondTool?: boolean;
+  /** Called if the channel request made for this call expires unanswered (after the call returned) */
+  onTimeout?: (request: TimedOutRequest) => void;
 }